@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { marketConfig, type AppConfig } from "@/lib/config";
+import { useConfig } from "@/hooks/use-config";
+import { useContracts } from "@/hooks/use-contracts";
+import { useOpenGames } from "@/hooks/use-open-games";
+import { MarketConfigCard } from "@/components/market-config-card";
+import { PolicyCard } from "@/components/policy-card";
+import { ExposureCard } from "@/components/exposure-card";
+
+// ==========================================================
+// Operator console: markets, limits & live exposure
+// ==========================================================
+export default function AdminPage() {
+  const { config, error, save } = useConfig();
+  const { contracts } = useContracts();
+  const { games } = useOpenGames();
+
+  // Edits stay local until saved; the server validates the whole config
+  const [draft, setDraft] = useState<AppConfig | null>(null);
+  const [token, setToken] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (config) setDraft(config);
+  }, [config]);
+
+  const dirty = draft !== null && JSON.stringify(draft) !== JSON.stringify(config);
+
+  const edit = (next: AppConfig) => {
+    setDraft(next);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setSaved(await save(draft, token || undefined));
+    setSaving(false);
+  };
+
+  const labelOf = (symbol: string) =>
+    (config && marketConfig(config, symbol)?.label) ?? symbol;
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-start justify-center p-6 gap-6">
+      <div className="flex flex-col items-center gap-6 w-full max-w-3xl">
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-4">
+            <h1 className="text-2xl font-bold text-center">Operator Console</h1>
+            <p className="text-sm text-gray-600">
+              Changes apply to new contracts as soon as they are saved; running contracts keep the
+              terms they were bought on.
+            </p>
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="token">Admin token (ADMIN_TOKEN on the server)</Label>
+                <Input
+                  id="token"
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+              </div>
+              <Button variant="outline" disabled={!dirty || saving} onClick={() => edit(config!)}>
+                Discard
+              </Button>
+              <Button disabled={!dirty || saving} onClick={handleSave}>
+                {saving ? "Saving…" : "Save"}
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            {saved && !dirty && <p className="text-sm text-green-600">Saved.</p>}
+          </CardContent>
+        </Card>
+
+        {draft ? (
+          <>
+            <MarketConfigCard
+              markets={draft.markets}
+              disabled={saving}
+              onChange={(markets) => edit({ ...draft, markets })}
+            />
+            <PolicyCard
+              policy={draft.policy}
+              disabled={saving}
+              onChange={(policy) => edit({ ...draft, policy })}
+            />
+          </>
+        ) : (
+          !error && <p className="text-sm text-gray-500">Loading config…</p>
+        )}
+      </div>
+
+      <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+        <ExposureCard contracts={contracts} games={games} labelOf={labelOf} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { BlackjackGame } from "@/lib/blackjack";
+import { getGame, watchGame } from "@/lib/server/blackjack";
+import { errorResponse, eventStream } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Server-sent events: the game now, then on every change until it is settled. */
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const { id } = await params;
+  let game: BlackjackGame;
+  try {
+    game = getGame(id);
+  } catch (e) {
+    return errorResponse(e);
+  }
+
+  return eventStream(req, (send, end) => {
+    const push = (g: BlackjackGame) => {
+      send(g);
+      if (g.phase === "settled") end();
+    };
+    const unwatch = watchGame(id, push);
+    push(game);
+    return unwatch;
+  });
+}
@@ -0,0 +1,17 @@
+import { hit } from "@/lib/server/blackjack";
+import { errorResponse } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Take the next tick's digit as a card. */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    return Response.json(hit((await params).id));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,16 @@
+import { getGame } from "@/lib/server/blackjack";
+import { errorResponse } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    return Response.json(getGame((await params).id));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,17 @@
+import { stand } from "@/lib/server/blackjack";
+import { errorResponse } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Stand; the dealer draws from the next ticks. */
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    return Response.json(stand((await params).id));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,19 @@
+import { dealGame, openGames, parseDeal } from "@/lib/server/blackjack";
+import { errorResponse, readJson } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Games still being played, oldest first, so a reloaded page can pick its game up. */
+export async function GET() {
+  return Response.json(openGames());
+}
+
+/** Deal a blackjack game; cards come from the feed's next ticks. */
+export async function POST(req: Request) {
+  try {
+    return Response.json(dealGame(parseDeal(await readJson(req))), { status: 201 });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,18 @@
+import { errorResponse, readJson } from "@/lib/server/http";
+import { checkAdmin, getConfig, updateConfig } from "@/lib/server/config";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return Response.json(getConfig());
+}
+
+export async function POST(req: Request) {
+  try {
+    checkAdmin(req);
+    return Response.json(updateConfig(await readJson(req)));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,16 @@
+import { errorResponse } from "@/lib/server/http";
+import { getReceipt } from "@/lib/server/receipts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    return Response.json(await getReceipt((await params).id));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,18 @@
+import { sellContract } from "@/lib/server/contracts";
+import { errorResponse, readJson } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Sell a running contract back; `price` is the lowest price the player accepts. */
+export async function POST(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  try {
+    const { price } = ((await readJson(req)) ?? {}) as { price?: unknown };
+    return Response.json(sellContract((await params).id, price));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,18 @@
+import type { Contract } from "@/lib/contracts";
+import { openContracts, watchContracts } from "@/lib/server/contracts";
+import { eventStream } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Server-sent events for the whole portfolio: a `snapshot` event with every
+ * open contract, then a message on every change to any contract.
+ */
+export async function GET(req: Request) {
+  return eventStream(req, (send) => {
+    const unwatch = watchContracts((c: Contract) => send(c));
+    send(openContracts(), "snapshot");
+    return unwatch;
+  });
+}
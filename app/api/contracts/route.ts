@@ -0,0 +1,43 @@
+import { parseFilter, toCsv } from "@/lib/history";
+import { listContracts, openContract, parseOrder } from "@/lib/server/contracts";
+import { errorResponse, readJson } from "@/lib/server/http";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Bet history, filtered by `symbol`, `type`, `status`, `from` and `to`.
+ * `format=csv` or `format=json` downloads it as a file instead.
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const contracts = listContracts(parseFilter(params));
+  const format = params.get("format");
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (format === "csv")
+    return new Response(toCsv(contracts), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="bets-${stamp}.csv"`,
+      },
+    });
+  if (format === "json")
+    return new Response(JSON.stringify(contracts, null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="bets-${stamp}.json"`,
+      },
+    });
+  return Response.json(contracts);
+}
+
+/** Buy a contract; it settles in the background on the server's feed. */
+export async function POST(req: Request) {
+  try {
+    const contract = openContract(parseOrder(await readJson(req)));
+    return Response.json(contract, { status: 201 });
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
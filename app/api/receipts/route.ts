@@ -0,0 +1,9 @@
+import { listReceipts, publicKey } from "@/lib/server/receipts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** The receipt chain and the public key that signs it. */
+export async function GET() {
+  return Response.json({ publicKey: await publicKey(), receipts: await listReceipts() });
+}
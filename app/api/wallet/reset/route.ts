@@ -0,0 +1,17 @@
+import { openGames } from "@/lib/server/blackjack";
+import { openContracts } from "@/lib/server/contracts";
+import { errorResponse } from "@/lib/server/http";
+import { resetWallet, WalletError } from "@/lib/server/wallet";
+
+export const runtime = "nodejs";
+
+/** Reset the balance, unless a bet is still riding on it. */
+export async function POST() {
+  try {
+    if (openContracts().length > 0 || openGames().length > 0)
+      throw new WalletError("Wait for open contracts and games to settle first", 409);
+    return Response.json(resetWallet());
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
@@ -0,0 +1,8 @@
+import { getWallet } from "@/lib/server/wallet";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  return Response.json(getWallet());
+}
@@ -0,0 +1,13 @@
+import { errorResponse, readJson } from "@/lib/server/http";
+import { topUp } from "@/lib/server/wallet";
+
+export const runtime = "nodejs";
+
+export async function POST(req: Request) {
+  try {
+    const { amount } = ((await readJson(req)) ?? {}) as { amount?: unknown };
+    return Response.json(topUp(amount));
+  } catch (e) {
+    return errorResponse(e);
+  }
+}
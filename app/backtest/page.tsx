@@ -0,0 +1,326 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  gridSize,
+  parseIntList,
+  parseMargins,
+  resultsToCsv,
+  runBacktest,
+  ticksToDigits,
+  type BacktestGrid,
+  type BacktestResult,
+} from "@/lib/backtest";
+import { simulateTicks, type Tick } from "@/lib/feeds";
+import { INDEX_OPTIONS } from "@/lib/markets";
+import type { Direction } from "@/lib/pricing";
+import { parseTicks } from "@/lib/recorder";
+
+const MAX_ROWS = 100; // result rows rendered; the CSV has all of them
+
+type SortKey = "z" | "housePnl" | "maxDrawdown";
+
+const SORT_OPTIONS: { label: string; value: SortKey }[] = [
+  { label: "|z| (model misfit)", value: "z" },
+  { label: "House P&L (worst first)", value: "housePnl" },
+  { label: "Max drawdown", value: "maxDrawdown" },
+];
+
+const sortResults = (results: BacktestResult[], key: SortKey) =>
+  [...results].sort((a, b) =>
+    key === "z"
+      ? Math.abs(b.z) - Math.abs(a.z)
+      : key === "housePnl"
+        ? a.housePnl - b.housePnl
+        : b.maxDrawdown - a.maxDrawdown,
+  );
+
+// ==========================================================
+// Backtester page: same engine as `npm run backtest`
+// ==========================================================
+export default function BacktestPage() {
+  // --- Tick source --- //
+  const [symbol, setSymbol] = useState("1HZ100V");
+  const [tickCount, setTickCount] = useState(20_000);
+  const [seed, setSeed] = useState(1089);
+  const [recorded, setRecorded] = useState<{ name: string; ticks: Tick[] } | null>(null);
+
+  // --- Grid --- //
+  const [durations, setDurations] = useState("1-10");
+  const [targets, setTargets] = useState("all");
+  const [directions, setDirections] = useState<Direction[]>(["Higher", "Lower"]);
+  const [equal, setEqual] = useState<"both" | "true" | "false">("both");
+  const [margins, setMargins] = useState("2%,5%");
+
+  const [results, setResults] = useState<BacktestResult[] | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>("z");
+  const [error, setError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const grid = useMemo((): BacktestGrid | null => {
+    try {
+      return {
+        durations: parseIntList(durations),
+        targets: targets.trim() === "all" ? null : parseIntList(targets),
+        directions,
+        allowEqual: equal === "both" ? [false, true] : [equal === "true"],
+        margins: parseMargins(margins),
+      };
+    } catch {
+      return null;
+    }
+  }, [durations, targets, directions, equal, margins]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return setRecorded(null);
+    try {
+      const ticks = parseTicks(JSON.parse(await file.text()));
+      setRecorded({ name: file.name, ticks });
+      setError(null);
+    } catch (e) {
+      setError(`Could not read ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const handleRun = () => {
+    if (!grid) return setError("Check the grid: ranges look like 1-5,8 and margins like 2%,5%");
+    setError(null);
+    setRunning(true);
+    // Let the "Running…" state paint before the sweep blocks the thread
+    setTimeout(() => {
+      try {
+        const ticks =
+          recorded?.ticks ??
+          simulateTicks(symbol, tickCount, { seed, startMs: Date.parse("2025-01-01T00:00:00Z") });
+        setResults(runBacktest(ticksToDigits(ticks), grid));
+      } catch (e) {
+        setError(`Backtest failed: ${(e as Error).message}`);
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  const handleExport = () => {
+    if (!results) return;
+    const url = URL.createObjectURL(new Blob([resultsToCsv(results)], { type: "text/csv" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = "backtest.csv";
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totals = useMemo(() => {
+    if (!results) return null;
+    const bets = results.reduce((a, r) => a + r.bets, 0);
+    const pnl = results.reduce((a, r) => a + r.housePnl, 0);
+    const expected = results.reduce((a, r) => a + r.expectedHousePnl, 0);
+    return { bets, pnl, expected, flagged: results.filter((r) => Math.abs(r.z) > 3).length };
+  }, [results]);
+
+  const rows = useMemo(
+    () => (results ? sortResults(results, sortKey).slice(0, MAX_ROWS) : []),
+    [results, sortKey],
+  );
+
+  return (
+    <div className="flex flex-col items-center p-6 gap-6 max-w-4xl mx-auto">
+      <Card className="w-full shadow-lg border border-gray-200">
+        <CardContent className="p-6 space-y-4">
+          <h1 className="text-2xl font-bold text-center">Backtester</h1>
+
+          {/* Tick source */}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label>Simulated market</Label>
+              <Select value={symbol} disabled={!!recorded} onValueChange={setSymbol}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INDEX_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="ticks">Ticks</Label>
+              <Input
+                id="ticks"
+                type="number"
+                min={100}
+                step={1000}
+                disabled={!!recorded}
+                value={tickCount}
+                onChange={(e) => setTickCount(parseInt(e.target.value, 10) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="seed">Seed</Label>
+              <Input
+                id="seed"
+                type="number"
+                disabled={!!recorded}
+                value={seed}
+                onChange={(e) => setSeed(parseInt(e.target.value, 10) || 0)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="ticks-file">…or replay recorded ticks (JSON)</Label>
+            <Input
+              id="ticks-file"
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+            {recorded && (
+              <p className="text-xs text-gray-500">
+                {recorded.ticks.length} ticks from {recorded.name}
+              </p>
+            )}
+          </div>
+
+          {/* Grid */}
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="durations">Durations</Label>
+              <Input id="durations" value={durations} onChange={(e) => setDurations(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="targets">Targets</Label>
+              <Input id="targets" value={targets} onChange={(e) => setTargets(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="margins">Margins</Label>
+              <Input id="margins" value={margins} onChange={(e) => setMargins(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center gap-6 text-sm">
+            {(["Higher", "Lower"] as const).map((d) => (
+              <label key={d} className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={directions.includes(d)}
+                  onChange={(e) =>
+                    setDirections((ds) => (e.target.checked ? [...ds, d] : ds.filter((x) => x !== d)))
+                  }
+                />
+                {d}
+              </label>
+            ))}
+            <div className="flex items-center gap-2">
+              <Label>Allow Equal</Label>
+              <Select value={equal} onValueChange={(v) => setEqual(v as typeof equal)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="both">Both</SelectItem>
+                  <SelectItem value="false">No</SelectItem>
+                  <SelectItem value="true">Yes</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button className="w-full" disabled={running || !grid} onClick={handleRun}>
+            {running
+              ? "Running…"
+              : `Run ${grid ? gridSize(grid).toLocaleString() : "?"} configurations`}
+          </Button>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {results && totals && (
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-bold">Results</h2>
+              <div className="flex items-center gap-2">
+                <Select value={sortKey} onValueChange={(v) => setSortKey(v as SortKey)}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SORT_OPTIONS.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  CSV
+                </Button>
+              </div>
+            </div>
+            <p className="text-sm">
+              House P&amp;L <span className="font-semibold">{totals.pnl.toFixed(2)}</span> on{" "}
+              {totals.bets.toLocaleString()} unit bets (expected {totals.expected.toFixed(2)}) ·{" "}
+              {totals.flagged} of {results.length} configurations with |z| &gt; 3
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm font-mono">
+                <thead>
+                  <tr className="text-left text-gray-500 font-sans">
+                    <th className="font-medium">k</th>
+                    <th className="font-medium">Bet</th>
+                    <th className="font-medium text-right">Margin</th>
+                    <th className="font-medium text-right">Bets</th>
+                    <th className="font-medium text-right">p</th>
+                    <th className="font-medium text-right">Hit rate</th>
+                    <th className="font-medium text-right">z</th>
+                    <th className="font-medium text-right">House P&amp;L</th>
+                    <th className="font-medium text-right">SD/bet</th>
+                    <th className="font-medium text-right">Drawdown</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={`${r.duration}:${r.target}:${r.direction}:${r.allowEqual}:${r.margin}`}>
+                      <td>{r.duration}</td>
+                      <td>
+                        {r.direction === "Higher" ? ">" : "<"}
+                        {r.allowEqual ? "=" : ""} {r.target}
+                      </td>
+                      <td className="text-right">{(r.margin * 100).toFixed(1)}%</td>
+                      <td className="text-right">{r.bets}</td>
+                      <td className="text-right">{r.p.toFixed(4)}</td>
+                      <td className="text-right">{r.hitRate.toFixed(4)}</td>
+                      <td className={`text-right ${Math.abs(r.z) > 3 ? "text-red-600" : ""}`}>
+                        {r.z.toFixed(2)}
+                      </td>
+                      <td className={`text-right ${r.housePnl < 0 ? "text-red-600" : "text-green-600"}`}>
+                        {r.housePnl.toFixed(2)}
+                      </td>
+                      <td className="text-right">{Math.sqrt(r.variance).toFixed(2)}</td>
+                      <td className="text-right">{r.maxDrawdown.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  BLACKJACK_RULES,
+  handTotal,
+  quoteBlackjack,
+  solveStrategy,
+  stateOf,
+  type BlackjackGame,
+  type StateValue,
+} from "@/lib/blackjack";
+import { DEFAULT_CONFIG, enabledMarkets } from "@/lib/config";
+import { DEFAULT_FEED, FEED_OPTIONS, type LiveFeedKind } from "@/lib/feeds";
+import { useBlackjack } from "@/hooks/use-blackjack";
+import { useConfig } from "@/hooks/use-config";
+import { useWallet } from "@/hooks/use-wallet";
+import { HouseEdgeCard } from "@/components/house-edge-card";
+import { StrategyCard } from "@/components/strategy-card";
+
+// The engine settles on live feeds only, as with contracts
+const LIVE_FEEDS = FEED_OPTIONS.filter((o) => o.value !== "replay");
+
+const PHASE_LABEL: Record<BlackjackGame["phase"], string> = {
+  dealing: "Dealing…",
+  player: "Hit or stand?",
+  hitting: "Drawing your card…",
+  dealer: "Dealer draws…",
+  settled: "",
+};
+
+const RESULT: Record<NonNullable<BlackjackGame["result"]>, [string, string]> = {
+  won: ["You win", "text-green-600"],
+  lost: ["Dealer wins", "text-red-600"],
+  push: ["Push, stake returned", "text-gray-700"],
+  void: ["Feed lost — game voided, stake refunded", "text-amber-600"],
+};
+
+/** The optimal move in `state`, and what each move is worth. */
+const Hint = ({ state }: { state: StateValue }) => (
+  <p className="ml-auto text-sm text-gray-600">
+    Best: <span className="font-semibold">{state.action === "hit" ? "Hit" : "Stand"}</span>{" "}
+    <span className="font-mono">
+      (hit {state.hit === null ? "—" : state.hit.toFixed(2)} vs stand {state.stand.toFixed(2)})
+    </span>
+  </p>
+);
+
+/** A hand's cards, its total, and a placeholder while a card is coming. */
+const Hand = ({
+  label,
+  cards,
+  drawing,
+  hint,
+}: {
+  label: string;
+  cards: number[];
+  drawing: boolean;
+  hint?: StateValue | null;
+}) => (
+  <div className="space-y-1">
+    <p className="text-sm">
+      {label}: <span className="font-semibold">{handTotal(cards)}</span>
+      {handTotal(cards) > BLACKJACK_RULES.bustLimit && (
+        <span className="ml-2 text-red-600 font-semibold">Bust</span>
+      )}
+    </p>
+    <div className="flex flex-wrap gap-1 min-h-7">
+      {cards.map((c, i) => (
+        <Badge key={i} variant="secondary" className="font-mono text-base">
+          {c}
+        </Badge>
+      ))}
+      {drawing && (
+        <Badge variant="outline" className="opacity-50 font-mono text-base">
+          ?
+        </Badge>
+      )}
+      {hint && <Hint state={hint} />}
+    </div>
+  </div>
+);
+
+// ==========================================================
+// Blackjack: hit or stand on tick digits
+// ==========================================================
+export default function BlackjackPage() {
+  const { config } = useConfig();
+  const settings = config ?? DEFAULT_CONFIG;
+  const markets = enabledMarkets(settings);
+  const [symbol, setSymbol] = useState("1HZ100V");
+  const [feed, setFeed] = useState<LiveFeedKind>(DEFAULT_FEED === "sim" ? "sim" : "deriv");
+  const [stake, setStake] = useState(1.0);
+
+  const { game, error, deal, hit, stand } = useBlackjack();
+  const playing = game !== null && game.phase !== "settled";
+  const wallet = useWallet(`${game?.id}:${game?.phase}`);
+
+  const { minStake, maxStake, baseMargin } = settings.policy;
+  const quote = useMemo(
+    () => quoteBlackjack(BLACKJACK_RULES, stake, baseMargin),
+    [stake, baseMargin],
+  );
+  // An open game plays on the terms it was dealt at; the margin may have moved since
+  const open = game && game.phase !== "settled" ? game : null;
+  const rules = open?.rules ?? BLACKJACK_RULES;
+  const multiplier = open ? open.payout / open.stake : quote.multiplier;
+  const strategy = useMemo(() => solveStrategy(rules, multiplier), [rules, multiplier]);
+  const current = game?.phase === "player" ? stateOf(strategy, game.player) : null;
+  const stakeOk = stake >= minStake && stake <= maxStake;
+  const insufficient = wallet.wallet !== null && stake > wallet.wallet.balance;
+
+  return (
+    <div className="flex flex-col lg:flex-row lg:items-start justify-center p-6 gap-6">
+      <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-6">
+            <div className="flex items-baseline justify-between">
+              <h1 className="text-2xl font-bold">Digit Blackjack</h1>
+              <p className="font-mono">
+                {wallet.wallet ? `$${wallet.wallet.balance.toFixed(2)}` : "--"}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>Market</Label>
+                <Select value={symbol} disabled={playing} onValueChange={setSymbol}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {markets.map((m) => (
+                      <SelectItem key={m.symbol} value={m.symbol}>
+                        {m.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Feed</Label>
+                <Select
+                  value={feed}
+                  disabled={playing}
+                  onValueChange={(v) => setFeed(v as LiveFeedKind)}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LIVE_FEEDS.map((o) => (
+                      <SelectItem key={o.value} value={o.value}>
+                        {o.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="stake">Stake (USD)</Label>
+                <Input
+                  id="stake"
+                  type="number"
+                  min={minStake}
+                  max={maxStake}
+                  step={0.01}
+                  disabled={playing}
+                  value={stake}
+                  onChange={(e) => setStake(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <Button
+                disabled={playing || !stakeOk || insufficient}
+                onClick={() => deal({ symbol, feed, stake })}
+              >
+                {insufficient ? "Insufficient funds" : `Deal · win pays $${quote.payout.toFixed(2)}`}
+              </Button>
+            </div>
+            {!stakeOk && (
+              <p className="text-sm text-red-600">
+                Stake must be between ${minStake.toFixed(2)} and ${maxStake.toFixed(2)}
+              </p>
+            )}
+
+            {game && (
+              <div className="p-4 rounded-xl bg-gray-50 space-y-4">
+                <Hand
+                  label="You"
+                  cards={game.player}
+                  drawing={game.phase === "dealing" || game.phase === "hitting"}
+                  hint={current}
+                />
+                <Hand label="Dealer" cards={game.dealer} drawing={game.phase === "dealer"} />
+
+                {game.phase === "settled" && game.result ? (
+                  <p className={`text-lg font-bold text-center ${RESULT[game.result][1]}`}>
+                    {RESULT[game.result][0]}
+                    {game.result === "won" && ` $${game.payout.toFixed(2)}!`}
+                  </p>
+                ) : (
+                  <p className="text-sm text-center text-gray-600">{PHASE_LABEL[game.phase]}</p>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  <Button disabled={game.phase !== "player"} onClick={hit}>
+                    Hit
+                  </Button>
+                  <Button variant="outline" disabled={game.phase !== "player"} onClick={stand}>
+                    Stand
+                  </Button>
+                </div>
+              </div>
+            )}
+            {error && <p className="text-sm text-center text-red-600">{error}</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+        <HouseEdgeCard rules={BLACKJACK_RULES} quote={quote} />
+        <StrategyCard
+          rules={rules}
+          strategy={strategy}
+          multiplier={multiplier}
+          current={current}
+        />
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,6 @@ import React, {
   useState,
   useMemo,
   useEffect,
-  useRef,
 } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -20,117 +19,76 @@ import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
-  ResponsiveContainer,
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  Tooltip,
-  CartesianGrid,
-} from "recharts";
-
-// ==========================================================
-// Utility helpers for combinatorics & probability of digit sums
-// ==========================================================
-const comb = (n: number, r: number): number => {
-  if (r < 0 || r > n) return 0;
-  r = Math.min(r, n - r);
-  let num = 1;
-  let denom = 1;
-  for (let i = 1; i <= r; i++) {
-    num *= n - r + i;
-    denom *= i;
-  }
-  return num / denom;
-};
-
-const P_k_n = (k: number, n: number): number => {
-  if (n < 0 || n > 9 * k) return 0;
-  let sum = 0;
-  for (let j = 0; j <= Math.floor(n / 10); j++) {
-    const term =
-      (j % 2 === 0 ? 1 : -1) *
-      comb(k, j) *
-      comb(n - 10 * j + k - 1, k - 1);
-    sum += term;
-  }
-  return sum / 10 ** k;
-};
-
-const F_k = (k: number, n: number): number => {
-  let acc = 0;
-  for (let m = 0; m <= n; m++) acc += P_k_n(k, m);
-  return acc;
-};
-
-const prob = (k: number, n: number, dir: "Higher" | "Lower", eq: boolean) => {
-  if (dir === "Higher") return eq ? 1 - F_k(k, n - 1) : 1 - F_k(k, n);
-  // dir === "Lower"
-  return eq ? F_k(k, n) : F_k(k, n - 1);
-};
-
-const payout = (
-  stake: number,
-  k: number,
-  n: number,
-  dir: "Higher" | "Lower",
-  eq: boolean,
-  margin = 0,
-): number => {
-  const p = prob(k, n, dir, eq);               // use the new helper
-  return p > 0 ? parseFloat(((stake * (1 - margin)) / p).toFixed(2)) : 0;
-
-};
+  CONTRACT_TYPES,
+  CONTRACT_TYPE_OPTIONS,
+  defaultSpec,
+  describeSpec,
+  fitSpec,
+  measureSpec,
+  type ContractSpec,
+  type ContractType,
+} from "@/lib/contract-types";
+import { formatQuote } from "@/lib/markets";
+import { DEFAULT_CONFIG, enabledMarkets, marketConfig } from "@/lib/config";
+import {
+  DEFAULT_FEED,
+  FEED_OPTIONS,
+  type FeedKind,
+  type FeedStatus,
+  type Tick,
+} from "@/lib/feeds";
+import { isSettled, type Contract } from "@/lib/contracts";
+import { SpecFields } from "@/components/spec-fields";
+import { PayoutTableCard } from "@/components/payout-table-card";
+import { DerivCard } from "@/components/deriv-card";
+import { toDerivBet } from "@/lib/deriv";
+import { useDerivAccount } from "@/hooks/use-deriv-account";
+import { useDerivTrade } from "@/hooks/use-deriv-trade";
+import {
+  clampToBounds,
+  hasSumTarget,
+  inBounds,
+  offeredDurations,
+} from "@/lib/payout-table";
+import { policyQuote } from "@/lib/policy";
+import { useConfig } from "@/hooks/use-config";
+import { useTickFeed } from "@/hooks/use-tick-feed";
+import { useContracts } from "@/hooks/use-contracts";
+import { PortfolioCard } from "@/components/portfolio-card";
+import { useWallet } from "@/hooks/use-wallet";
+import { WalletCard } from "@/components/wallet-card";
+import { HistoryCard } from "@/components/history-card";
+import { PriceChart } from "@/components/price-chart";
+import { AnalyticsCard } from "@/components/analytics-card";
+import { DigitMonitorCard } from "@/components/digit-monitor-card";
+import { useDigitMonitor } from "@/hooks/use-digit-monitor";
+import { digitStats } from "@/lib/digit-stats";
+import { RecordingsCard } from "@/components/recordings-card";
+import { useTickRecorder } from "@/hooks/use-tick-recorder";
+import { useReplay } from "@/hooks/use-replay";
+import type { RecordedSession } from "@/lib/recorder";
 
 // ======================
-// Deriv live‑tick helper
+// Misc helpers
 // ======================
-const DERIV_WS_URL =
-  "wss://ws.binaryws.com/websockets/v3?l=EN&app_id=1089"; // demo app‑id
-
-const useDerivTicks = (symbol: string) => {
-  const [quote, setQuote] = useState<number | null>(null);
-  const [connected, setConnected] = useState(false);
-
-  useEffect(() => {
-    const ws = new WebSocket(DERIV_WS_URL);
-
-    ws.onopen = () => {
-      setConnected(true);
-      ws.send(JSON.stringify({ ticks: symbol, subscribe: 1 }));
-    };
-
-    ws.onmessage = (ev) => {
-      const msg = JSON.parse(ev.data);
-      if (msg.msg_type === "tick") {
-        setQuote(parseFloat(msg.tick.quote));
-      }
-    };
-
-    ws.onerror = (e) => console.error("WS error", e);
-    ws.onclose = () => setConnected(false);
-
-    return () => ws.close();
-  }, [symbol]);
-
-  return { quote, connected } as const;
+const MAX_HISTORY = 5000; // ticks kept for the chart, its largest window
+
+// Header marker for every feed state other than "open"
+const FEED_STATUS_LABEL: Record<FeedStatus, string | null> = {
+  connecting: "(connecting…)",
+  open: null,
+  reconnecting: "(reconnecting…)",
+  stale: "(stale feed)",
+  closed: "(offline)",
 };
 
-// ======================
-// Misc helpers
-// ======================
-const HISTORY_LEN = 10; // how many price points to retain for the chart
-const lastDigit = (price: number): number => Math.floor(price * 100) % 10;
-
-// Available markets for the user to pick
-const INDEX_OPTIONS = [
-  { label: "100 Vol (2 sec) Index ", value: "R_100" },
-  { label: "100 Vol Index",       value: "1HZ100V" },
-  { label: "CRASH 300 Index",       value: "CRASH300N" },
-  { label: "BOOM 300 Index",       value: "BOOM300N" },
-  { label: "Bull Index",       value: "RDBULL" },
-  { label: "Bear Index",       value: "RDBEAR" },
-];
+const REPLAY_STATUS_LABEL: Record<FeedStatus, string | null> = {
+  connecting: "(choose a recording)",
+  open: null,
+  reconnecting: null,
+  stale: null,
+  closed: "(replay ended)",
+};
 
 // ==========================================================
 // Main React Component
@@ -138,322 +96,419 @@ const INDEX_OPTIONS = [
 export default function BlackjackOptionApp() {
   // --- Inputs --- //
   const [duration, setDuration] = useState(5);
-  const [target, setTarget] = useState(22);
-  const [direction, setDirection] = useState<"Higher" | "Lower">("Higher");
-  const [allowEqual, setAllowEqual] = useState(false);   // ☐ Include "="
+  const [spec, setSpec] = useState<ContractSpec>(() => defaultSpec("sum", 5));
   const [stake, setStake] = useState(1.0);
-  const [margin, setMargin] = useState(0.05);
   const [symbol, setSymbol] = useState("1HZ100V");   // default market
+  const [feedKind, setFeedKind] = useState<FeedKind>(DEFAULT_FEED);
 
+  // Markets, durations, contract types and limits are set by the operator
+  const { config } = useConfig();
+  const settings = config ?? DEFAULT_CONFIG;
+  const markets = useMemo(() => enabledMarkets(settings), [settings]);
+  const market = marketConfig(settings, symbol);
+  const durations = market && offeredDurations(market, spec.type);
 
   // Live feed (use any synthetic symbol you prefer)
-  const { quote, connected } = useDerivTicks(symbol);
+  const { tick, quote, pipSize, status, connected } = useTickFeed(feedKind, symbol);
 
-  // Price history for the chart
-  const [history, setHistory] = useState<{ t: number; price: number }[]>([]);
-  const tickRef = useRef(0);
-
-  // --- Contract state --- //
-  const [active, setActive] = useState(false);
-  const [ticksLeft, setTicksLeft] = useState(0);
-  const [digits, setDigits] = useState<number[]>([]);
-  const [outcome, setOutcome] = useState<"win" | "lose" | null>(null);
-  const runningSum = useMemo(() => digits.reduce((a, b) => a + b, 0), [digits]);
-
-  // Pre‑computed odds & payouts (recompute when inputs change)
-  const summary = useMemo(() => {
-    const p = prob(duration, target, direction, allowEqual);
-    return {
-      p,
-      fair: payout(stake, duration, target, direction, allowEqual, 0),
-      offered: payout(stake, duration, target, direction, allowEqual, margin),
-    };
-  }, [duration, target, direction, allowEqual, stake, margin]);
-
-
-  /* ---- outcome helper ---- */
-  const evaluateOutcome = (sum: number) => {
-    const win =
-      direction === "Higher"
-        ? allowEqual ? sum >= target : sum > target
-        : allowEqual ? sum <= target : sum < target;
-    setOutcome(win ? "win" : "lose");
-  };
+  // Empirical check of the uniform-digit pricing assumption on this market
+  const digitMonitor = useDigitMonitor(feedKind, symbol);
+  const digitCheck = useMemo(() => digitStats(digitMonitor.digits), [digitMonitor.digits]);
 
+  // Every live tick is recorded; a recorded session can be played back instead
+  const [recording, setRecording] = useState(true);
+  const recorder = useTickRecorder(feedKind, symbol, recording);
+  const replay = useReplay();
+  const replaying = feedKind === "replay";
+  const statusLabel = (replaying ? REPLAY_STATUS_LABEL : FEED_STATUS_LABEL)[status];
 
-  // Push every real tick into state
-  useEffect(() => {
-    if (quote === null) return; // nothing yet
+  // Price history for the chart
+  const [history, setHistory] = useState<Tick[]>([]);
+
+  // --- Contract state (owned by the server engine) --- //
+  const { contracts, error, buy, sell } = useContracts();
+  const [outcome, setOutcome] = useState<Contract | null>(null);
+  const hasOpen = contracts.some((c) => !isSettled(c));
+  const marketContracts = useMemo(
+    () => contracts.filter((c) => c.symbol === symbol && c.feed === feedKind),
+    [contracts, symbol, feedKind],
+  );
 
-    tickRef.current += 1;
-    setHistory((h) => [
-      ...h.slice(-(HISTORY_LEN - 1)),
-      { t: tickRef.current, price: quote },
-    ]);
+  // Balance and history move on purchase and settlement, so re-read on each
+  const contractVersion = contracts.map((c) => `${c.id}:${c.status}`).join();
+  const wallet = useWallet(contractVersion);
+  const insufficient = wallet.wallet !== null && stake > wallet.wallet.balance;
+  const closed = !market?.enabled;
+  const outOfBounds = !!market && !inBounds(spec, duration, market);
+
+  // Pre‑computed odds & payouts (recompute when inputs change), priced under
+  // the operator's policy, which may refuse the contract outright
+  const pricing = settings.policy;
+  const summary = useMemo(
+    () => policyQuote(pricing, stake, spec, duration),
+    [pricing, duration, spec, stake],
+  );
 
-    if (active) {
-      setDigits((prev) => [...prev, lastDigit(quote)]);
-      setTicksLeft((tl) => tl - 1);
-    }
-  }, [quote, active]);
 
-  // Finish contract when ticksLeft hits 0
+  // Push every tick into the chart, repeated quotes included
   useEffect(() => {
-    if (active && ticksLeft === 0) {
-      setActive(false);
-      evaluateOutcome(runningSum);
-    }
-  }, [ticksLeft, active, runningSum]);
+    if (tick === null) return; // nothing yet
+    setHistory((h) => {
+      const last = h[h.length - 1];
+      if (last?.id === tick.id) return h;
+      // A replay that starts over goes back in time, so the chart does too
+      if (last && tick.epoch < last.epoch) return [tick];
+      return [...h.slice(-(MAX_HISTORY - 1)), tick];
+    });
+  }, [tick]);
+
+  // Show the banner whenever the engine settles one of our contracts
+  const lastSettled = useMemo(
+    () =>
+      contracts
+        .filter((c) => isSettled(c))
+        .sort((a, b) => (b.settledAt ?? 0) - (a.settledAt ?? 0))[0] ?? null,
+    [contracts],
+  );
+  useEffect(() => {
+    if (lastSettled) setOutcome(lastSettled);
+  }, [lastSettled]);
 
-  // Hide the win/lose banner after 1 s and show odds again
+  // Hide the outcome banner (longer for a void or sale) and show odds again
   useEffect(() => {
     if (outcome) {
-      const id = setTimeout(() => setOutcome(null), 1000);
+      const long = outcome.status === "void" || outcome.status === "sold";
+      const id = setTimeout(() => setOutcome(null), long ? 4000 : 1000);
       return () => clearTimeout(id);
     }
   }, [outcome]);
 
-  //Reset chart & counters when the user changes symbol (Only if no contract is running; prevents mid-bet switches.)
+  // Optional real Deriv account, to compare its price for the same bet and buy there
+  const deriv = useDerivAccount();
+  const derivBet = useMemo(() => toDerivBet(spec, duration), [spec, duration]);
+  const derivTrade = useDerivTrade(deriv.session, derivBet, symbol, stake);
+
+  // Keep the inputs within what the operator offers; a replay may be of a
+  // market that has since been closed, which only blocks betting
+  useEffect(() => {
+    if (replaying || !market) return;
+    if (!market.enabled) {
+      if (markets[0]) setSymbol(markets[0].symbol);
+      return;
+    }
+    // A type whose targets are all out of the market's bounds at some
+    // durations is only offered at the others, and not at all if none is left
+    const offered = market.contractTypes.filter((t) => offeredDurations(market, t));
+    const type = offered.includes(spec.type) ? spec.type : offered[0];
+    if (!type) return;
+    const range = offeredDurations(market, type)!;
+    const k = Math.max(range.min, Math.min(range.max, duration));
+    if (k !== duration) {
+      setDuration(k);
+      setSpec((s) => fitSpec(s, k));
+    }
+    if (type !== spec.type) setSpec(defaultSpec(type, k));
+    setSpec((s) => clampToBounds(s, k, market));
+  }, [market, markets, replaying, duration, spec.type]);
+
+  // Reset the chart when the user changes market or feed
   useEffect(() => {
-  if (!active) {
     setHistory([]);
-    tickRef.current = 0;
-    setDigits([]);
-  }
-}, [symbol, active]);
+  }, [symbol, feedKind]);
+
+  const handleReplay = (session: RecordedSession) => {
+    const previous = { symbol, feedKind };
+    setSymbol(session.symbol);
+    setFeedKind("replay");
+    replay.play(session).catch((e) => {
+      recorder.reportError(`Could not replay the session: ${(e as Error).message}`);
+      if (previous.feedKind === "replay") return;
+      setSymbol(previous.symbol);
+      setFeedKind(previous.feedKind);
+    });
+  };
 
   const handlePlaceBet = () => {
-    setOutcome(null);
-    setDigits([]);
-    setTicksLeft(duration);
-    setActive(true);
+    if (feedKind === "replay") return; // the engine only settles on live feeds
+    buy({
+      symbol,
+      feed: feedKind,
+      duration,
+      spec,
+      stake,
+    });
   };
 
-  // ------ UI helpers ------ //
-  const DigitDisplay = () => (
-    <div className="flex flex-wrap gap-1 items-center justify-center">
-      {digits.map((d, i) => (
-        <Badge key={i} variant="secondary" className="font-mono text-sm">
-          {d}
-        </Badge>
-      ))}
-      {Array.from({ length: ticksLeft }).map((_, i) => (
-        <Badge
-          key={`p${i}`}
-          variant="outline"
-          className="opacity-50 font-mono text-sm"
-        >
-          ?
-        </Badge>
-      ))}
-    </div>
-  );
-
   // ==========================================================
   // Render
   // ==========================================================
   return (
-    <div className="flex flex-col items-center p-6 gap-6 max-w-xl mx-auto">
-      {/* Price Card */}
-      <Card className="w-full shadow-lg border border-gray-200">
-        <CardContent className="p-6 space-y-4">
-          <h2 className="text-xl font-bold text-center">
-          {INDEX_OPTIONS.find(o => o.value === symbol)?.label ?? symbol}
-          {!connected && (
-            <span className="ml-2 text-xs text-red-500">(offline)</span>
-          )}
-        </h2>
-          {/* ─── Index picker ─────────────────────────────────────────────── */}
-          <div className="space-y-2">
-            <Label>Market</Label>
-            <Select
-              value={symbol}
-              disabled={active}          // lock during an active bet
-              onValueChange={setSymbol}
-            >
-              <SelectTrigger className="w-full">
-                <SelectValue placeholder="Select index" />
-              </SelectTrigger>
-              <SelectContent>
-                {INDEX_OPTIONS.map((opt) => (
-                  <SelectItem key={opt.value} value={opt.value}>
-                    {opt.label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <p className="text-center text-3xl font-mono">
-            {quote !== null ? `$${quote.toFixed(2)}` : "--"}
-          </p>
-          <div className="h-48 w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={history} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis dataKey="t" hide />
-                <YAxis domain={["auto", "auto"]} hide />
-                <Tooltip
-                  formatter={(v: number | string) =>
-                    `$${(typeof v === "number" ? v : Number(v)).toFixed(2)}`
-                  }
-                  labelFormatter={() => ""}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="price"
-                  dot={false}
-                  strokeWidth={2}
-                  isAnimationActive={false}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Option Card */}
-      <Card className="w-full shadow-lg border border-gray-200">
-        <CardContent className="p-6 space-y-6">
-          <h1 className="text-2xl font-bold text-center">Target Sum Digit Option</h1>
-
-          {/* Inputs */}
-          <div className="space-y-2">
-            <Label htmlFor="duration">Duration (ticks): {duration}</Label>
-            <Slider
-              id="duration"
-              min={1}
-              max={10}
-              step={1}
-              disabled={active}
-              value={[duration]}
-              onValueChange={([v]) => {
-                setDuration(v);
-                setTarget((t) => Math.min(t, 9 * v));
-              }}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="target">Target Sum</Label>
-            <Input
-              id="target"
-              type="number"
-              min={0}
-              max={9 * duration}
-              step={1}
-              disabled={active}
-              value={target}
-              onChange={(e) => {
-                const n = parseInt(e.target.value, 10);
-                if (!isNaN(n))
-                  setTarget(Math.max(0, Math.min(9 * duration, n)));
-              }}
-            />
-          </div>
-          {/* Direction selector */}
-          <div className="space-y-1">
-            <Label>Direction</Label>
-            <Select
-              value={direction}
-              disabled={active}
-              onValueChange={(v) => setDirection(v as "Higher" | "Lower")}
-            >
-              <SelectTrigger className="w-full">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Higher">Higher (&gt;)</SelectItem>
-                <SelectItem value="Lower">Lower (&lt;)</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-          
-          {/* Allow equal checkbox */}
-          <div className="flex items-center space-x-2">
-            <input
-              id="allowEqual"
-              type="checkbox"
-              disabled={active}
-              checked={allowEqual}
-              onChange={(e) => setAllowEqual(e.target.checked)}
-              className="h-4 w-4"
-            />
-            <Label htmlFor="allowEqual">Allow Equal</Label>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="stake">Stake (USD)</Label>
-            <Input
-              id="stake"
-              type="number"
-              min={0.1}
-              step={0.01}
-              disabled={active}
-              value={stake}
-              onChange={(e) => setStake(parseFloat(e.target.value) || 0)}
-            />
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="margin">Deriv Edge (%)</Label>
-            <Input
-              id="margin"
-              type="number"
-              min={0}
-              max={20}
-              step={0.1}
-              disabled={active}
-              value={margin * 100}
-              onChange={(e) => setMargin((parseFloat(e.target.value) || 0) / 100)}
+    <div className="flex flex-col lg:flex-row lg:items-start justify-center p-6 gap-6">
+      <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+        {/* Price Card */}
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-4">
+            <h2 className="text-xl font-bold text-center">
+            {market?.label ?? symbol}
+            {statusLabel && (
+              <span className="ml-2 text-xs text-red-500">{statusLabel}</span>
+            )}
+            {digitCheck.deviates && (
+              <Badge variant="destructive" className="ml-2 align-middle">
+                Non-uniform digits
+              </Badge>
+            )}
+          </h2>
+            {/* ─── Index picker ─────────────────────────────────────────────── */}
+            <div className="space-y-2">
+              <Label>Market</Label>
+              <Select
+                value={symbol}
+                onValueChange={setSymbol}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select index" />
+                </SelectTrigger>
+                <SelectContent>
+                  {markets.map((m) => (
+                    <SelectItem key={m.symbol} value={m.symbol}>
+                      {m.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {/* ─── Feed picker ──────────────────────────────────────────────── */}
+            <div className="space-y-2">
+              <Label>Feed</Label>
+              <Select
+                value={feedKind}
+                onValueChange={(v) => setFeedKind(v as FeedKind)}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEED_OPTIONS.map((opt) => (
+                    <SelectItem key={opt.value} value={opt.value}>
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-center text-3xl font-mono">
+              {quote !== null ? `$${formatQuote(quote, pipSize)}` : "--"}
+            </p>
+            <PriceChart
+              ticks={history}
+              pipSize={pipSize}
+              contracts={marketContracts}
+              duration={duration}
             />
-          </div>
-
-          {/* Live Contract */}
-          {active && (
-            <div className="space-y-3 text-center">
-              <p className="text-sm font-medium">
-                Collecting digits… ({ticksLeft} ticks left)
-              </p>
-              <DigitDisplay />
-              <p className="text-sm">
-                Current Sum: <span className="font-semibold">{runningSum}</span>
-              </p>
+          </CardContent>
+        </Card>
+
+        {/* Option Card */}
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-6">
+            <h1 className="text-2xl font-bold text-center">Target Sum Digit Option</h1>
+
+            {/* Inputs */}
+            <div className="space-y-1">
+              <Label>Contract Type</Label>
+              <Select
+                value={spec.type}
+                onValueChange={(v) => setSpec(defaultSpec(v as ContractType, duration))}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTRACT_TYPE_OPTIONS.filter(
+                    (opt) => market?.contractTypes.includes(opt.value) ?? true,
+                  ).map((opt) => (
+                    <SelectItem
+                      key={opt.value}
+                      value={opt.value}
+                      disabled={!!market && !offeredDurations(market, opt.value)}
+                    >
+                      {opt.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          )}
-
-          {/* Outcome */}
-          {outcome && (
-            <div className="text-center p-4 rounded-xl bg-gray-50">
-              {outcome === "win" ? (
-                <p className="text-lg font-bold text-green-600">
-                  You win ${summary.offered.toFixed(2)}!
-                </p>
-              ) : (
-                <p className="text-lg font-bold text-red-600">
-                  You lose. Better luck next time!
-                </p>
-              )}
+            <div className="space-y-2">
+              <Label htmlFor="duration">Duration (ticks): {duration}</Label>
+              <Slider
+                id="duration"
+                min={durations?.min ?? 1}
+                max={durations?.max ?? 1}
+                step={1}
+                value={[duration]}
+                onValueChange={([v]) => {
+                  setDuration(v);
+                  setSpec((s) => fitSpec(s, v));
+                }}
+              />
             </div>
-          )}
-
-          {/* Odds (only when idle) */}
-          {!active && !outcome && (
-            <div className="p-4 bg-gray-50 rounded-xl text-center space-y-2">
-              <p className="text-sm">
-                Win Probability: <span className="font-semibold">{(summary.p * 100).toFixed(4)}%</span>
-              </p>
-              <p className="text-sm">
-                Fair Payout: <span className="font-semibold">${summary.fair.toFixed(2)}</span>
-              </p>
-              <p className="text-lg font-bold">
-                Offered Payout: ${summary.offered.toFixed(2)}
-              </p>
+            <SpecFields spec={spec} duration={duration} bounds={market} onChange={setSpec} />
+
+            <div className="space-y-2">
+              <Label htmlFor="stake">Stake (USD)</Label>
+              <Input
+                id="stake"
+                type="number"
+                min={pricing.minStake}
+                max={pricing.maxStake}
+                step={0.01}
+                value={stake}
+                onChange={(e) => setStake(parseFloat(e.target.value) || 0)}
+              />
             </div>
-          )}
 
-          <Button className="w-full" disabled={active} onClick={handlePlaceBet}>
-            {active ? "Betting…" : "Place Bet"}
-          </Button>
-        </CardContent>
-      </Card>
+            {/* Outcome of the contract that settled last */}
+            {outcome && (
+              <div className="text-center p-4 rounded-xl bg-gray-50">
+                {outcome.status === "won" ? (
+                  <p className="text-lg font-bold text-green-600">
+                    You win ${outcome.payout.toFixed(2)}!
+                  </p>
+                ) : outcome.status === "sold" ? (
+                  <p className="text-lg font-bold text-blue-600">
+                    Sold back for ${outcome.soldFor?.toFixed(2)}.
+                  </p>
+                ) : outcome.status === "void" ? (
+                  <p className="text-lg font-bold text-amber-600">
+                    Feed lost — contract voided, ${outcome.stake.toFixed(2)} stake refunded.
+                  </p>
+                ) : (
+                  <p className="text-lg font-bold text-red-600">
+                    You lose. Better luck next time!
+                  </p>
+                )}
+                {(outcome.status === "won" || outcome.status === "lost") && (
+                  <p className="text-sm text-gray-600">
+                    {outcome.symbol}: {measureSpec(outcome.spec, outcome.digits).join(" ")} · bet{" "}
+                    {describeSpec(outcome.spec)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Odds (hidden while an outcome is shown) */}
+            {!outcome && (
+              <div className="p-4 bg-gray-50 rounded-xl text-center space-y-2">
+                <p className="text-sm text-gray-500">
+                  {CONTRACT_TYPES[spec.type].label}: {describeSpec(spec)} over {duration} ticks
+                </p>
+                <p className="text-sm">
+                  Win Probability: <span className="font-semibold">{(summary.p * 100).toFixed(4)}%</span>
+                </p>
+                <p className="text-sm">
+                  Fair Payout: <span className="font-semibold">${summary.fair.toFixed(2)}</span>
+                </p>
+                <p className="text-lg font-bold">
+                  Offered Payout: ${summary.offered.toFixed(2)}
+                </p>
+                {summary.rejection && (
+                  <p className="text-sm text-red-600">{summary.rejection}</p>
+                )}
+              </div>
+            )}
+
+            <Button
+              className="w-full"
+              disabled={
+                !connected ||
+                insufficient ||
+                replaying ||
+                closed ||
+                outOfBounds ||
+                summary.rejection !== null
+              }
+              onClick={handlePlaceBet}
+            >
+              {replaying
+                ? "Betting is off during a replay"
+                : closed
+                  ? "Market closed"
+                  : outOfBounds
+                    ? "Not offered on this market"
+                    : insufficient
+                    ? "Insufficient funds"
+                    : "Place Bet"}
+            </Button>
+            {error && <p className="text-sm text-center text-red-600">{error}</p>}
+          </CardContent>
+        </Card>
+
+        {/* Payout Table: every target for the chosen duration and direction */}
+        {hasSumTarget(spec) && (
+          <PayoutTableCard
+            spec={spec}
+            duration={duration}
+            stake={stake}
+            policy={pricing}
+            bounds={market}
+            onTarget={(target) => setSpec({ ...spec, target })}
+          />
+        )}
+
+        {/* Portfolio Card */}
+        <PortfolioCard
+          contracts={contracts}
+          labelOf={(s) => marketConfig(settings, s)?.label ?? s}
+          onSell={sell}
+        />
+
+        {/* Deriv Card */}
+        <DerivCard
+          session={deriv.session}
+          balance={deriv.balance}
+          pending={deriv.pending}
+          bet={derivBet}
+          ourPayout={summary.offered}
+          proposal={derivTrade.proposal}
+          contracts={derivTrade.contracts}
+          buying={derivTrade.buying}
+          error={deriv.error ?? derivTrade.error}
+          onLogin={deriv.login}
+          onLogout={deriv.logout}
+          onBuy={derivTrade.buy}
+        />
+
+        {/* Wallet Card */}
+        <WalletCard
+          wallet={wallet.wallet}
+          error={wallet.error}
+          disabled={hasOpen || wallet.gameOpen}
+          onTopUp={wallet.topUp}
+          onReset={wallet.reset}
+        />
+
+        {/* History Card */}
+        <HistoryCard markets={settings.markets} version={contractVersion} />
+      </div>
+
+      {/* Analytics, beside the main cards on wide screens */}
+      <div className="flex flex-col items-center gap-6 w-full max-w-xl">
+        <AnalyticsCard version={contractVersion} />
+        <DigitMonitorCard symbol={symbol} stats={digitCheck} onReset={digitMonitor.reset} />
+        <RecordingsCard
+          sessions={recorder.sessions}
+          error={recorder.error}
+          recording={recording}
+          onRecordingChange={setRecording}
+          replaying={replaying ? replay.session : null}
+          progress={replay.progress}
+          onReplay={handleReplay}
+          onSpeedChange={replay.setSpeed}
+          onDelete={recorder.remove}
+          onImport={recorder.importFile}
+        />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { describeSpec } from "@/lib/contract-types";
+import type { ReceiptCheck } from "@/lib/receipts";
+import { useReceiptVerifier } from "@/hooks/use-receipt-verifier";
+
+const Checks = ({ checks }: { checks: ReceiptCheck[] }) => (
+  <table className="w-full text-sm">
+    <tbody>
+      {checks.map((c) => (
+        <tr key={c.name}>
+          <td className={`w-6 ${c.ok ? "text-green-600" : "text-red-600"}`}>{c.ok ? "✓" : "✗"}</td>
+          <td>{c.name}</td>
+          <td className="text-right font-mono text-gray-600">{c.detail}</td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// ==========================================================
+// Receipt verifier: every check runs in this browser
+// ==========================================================
+export default function VerifyPage() {
+  const { fingerprint, verification, error, setError, verify, loadChain, loadReceipt } =
+    useReceiptVerifier();
+  const [text, setText] = useState("");
+
+  // /verify?contract=<id> opens that contract's receipt
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("contract");
+    if (!id) return;
+    loadReceipt(id).then(
+      (r) => setText(JSON.stringify(r, null, 2)),
+      (e: Error) => setError(e.message),
+    );
+  }, [loadReceipt, setError]);
+
+  const handleLoadChain = async () => {
+    try {
+      setText(JSON.stringify(await loadChain(), null, 2));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const passed = verification && [
+    ...verification.results.flatMap((r) => r.checks),
+    ...verification.chain,
+  ].every((c) => c.ok);
+
+  return (
+    <div className="flex justify-center p-6">
+      <div className="flex flex-col items-center gap-6 w-full max-w-3xl">
+        <Card className="w-full shadow-lg border border-gray-200">
+          <CardContent className="p-6 space-y-4">
+            <h1 className="text-2xl font-bold text-center">Verify Receipts</h1>
+            <p className="text-sm text-gray-600">
+              Every settled contract has a receipt signed by the app. Paste one, or a JSON array of
+              them, to recompute its probability, payout and outcome from the recorded ticks and
+              check the signature and hash chain, all in your browser.
+            </p>
+            <p className="text-sm">
+              Signing key: <span className="font-mono">{fingerprint ?? "…"}</span>
+            </p>
+
+            <div className="space-y-2">
+              <Label htmlFor="receipt">Receipt JSON</Label>
+              <textarea
+                id="receipt"
+                rows={12}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="w-full rounded-md border border-gray-200 p-3 font-mono text-xs"
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button disabled={!text.trim() || !fingerprint} onClick={() => verify(text)}>
+                Verify
+              </Button>
+              <Button variant="outline" onClick={handleLoadChain}>
+                Load all my receipts
+              </Button>
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </CardContent>
+        </Card>
+
+        {verification && (
+          <Card className="w-full shadow-lg border border-gray-200">
+            <CardContent className="p-6 space-y-4">
+              <p
+                className={`text-lg font-bold text-center ${passed ? "text-green-600" : "text-red-600"}`}
+              >
+                {passed ? "All checks passed" : "Some checks failed"}
+              </p>
+              {verification.results.map(({ receipt: { body }, checks }) => (
+                <div
+                  key={`${body.seq}:${body.contractId}`}
+                  className="p-3 rounded-xl bg-gray-50 space-y-2"
+                >
+                  <div className="flex items-baseline justify-between text-sm">
+                    <p className="font-medium">
+                      #{body.seq} {body.symbol} · {describeSpec(body.spec)} / {body.duration}t
+                    </p>
+                    <Badge variant="secondary">{body.outcome}</Badge>
+                  </div>
+                  <p className="text-xs font-mono text-gray-500">{body.contractId}</p>
+                  <Checks checks={checks} />
+                </div>
+              ))}
+              {verification.chain.length > 0 && (
+                <div className="space-y-2">
+                  <h2 className="font-semibold">Chain</h2>
+                  <Checks checks={verification.chain} />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+} from "recharts";
+import { sessionStats } from "@/lib/analytics";
+import { useHistory } from "@/hooks/use-history";
+
+const money = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toFixed(2)}`;
+const pct = (x: number) => `${(x * 100).toFixed(1)}%`;
+
+/**
+ * Session P&L and model validation: cumulative realised vs expected P&L, and
+ * realised hit rate against the probability quoted at purchase.
+ */
+export function AnalyticsCard({ version }: { version: unknown }) {
+  const { contracts } = useHistory({}, version);
+  const stats = useMemo(() => sessionStats(contracts), [contracts]);
+  const buckets = stats.buckets
+    .filter((b) => b.bets > 0)
+    .map((b) => ({ ...b, range: `${pct(b.lo)}–${pct(b.hi)}` }));
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <h2 className="text-xl font-bold">Session Analytics</h2>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p>
+            Bets: <span className="font-semibold">{stats.bets}</span> (
+            {stats.bets ? pct(stats.wins / stats.bets) : "--"} won)
+          </p>
+          <p>
+            Staked: <span className="font-semibold">{money(stats.staked)}</span>
+          </p>
+          <p>
+            Realised P&amp;L:{" "}
+            <span className={`font-semibold ${stats.pnl < 0 ? "text-red-600" : "text-green-600"}`}>
+              {money(stats.pnl)}
+            </span>
+          </p>
+          <p>
+            Expected P&amp;L: <span className="font-semibold">{money(stats.expectedPnl)}</span>
+          </p>
+          <p className="col-span-2">
+            EV per $1 staked: <span className="font-semibold">{money(stats.evPerStake)}</span>{" "}
+            <span className="text-gray-500">(house edge {pct(-stats.evPerStake)})</span>
+          </p>
+        </div>
+
+        {stats.bets === 0 ? (
+          <p className="text-sm text-center text-gray-500">Settle a few bets to see analytics.</p>
+        ) : (
+          <>
+            <div className="h-48 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={stats.series} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="n" />
+                  <YAxis tickFormatter={(v: number) => `$${v}`} width={50} />
+                  <Tooltip
+                    formatter={(v: number) => money(v)}
+                    labelFormatter={(n) => `Bet #${n}`}
+                  />
+                  <Legend />
+                  <Line
+                    name="Realised"
+                    type="stepAfter"
+                    dataKey="cumulative"
+                    dot={false}
+                    strokeWidth={2}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    name="Expected"
+                    type="monotone"
+                    dataKey="expected"
+                    dot={false}
+                    stroke="#9ca3af"
+                    strokeDasharray="4 4"
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="h-48 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={buckets} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="range" tick={{ fontSize: 10 }} />
+                  <YAxis domain={[0, 1]} tickFormatter={pct} width={50} />
+                  <Tooltip formatter={(v: number) => pct(v)} />
+                  <Legend />
+                  <Bar name="Quoted p" dataKey="quoted" fill="#9ca3af" isAnimationActive={false} />
+                  <Bar name="Realised" dataKey="realised" fill="#2563eb" isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium">Quoted p</th>
+                  <th className="font-medium text-right">Bets</th>
+                  <th className="font-medium text-right">Quoted</th>
+                  <th className="font-medium text-right">Realised</th>
+                  <th className="font-medium text-right">z</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {buckets.map((b) => (
+                  <tr key={b.lo}>
+                    <td>{b.range}</td>
+                    <td className="text-right">{b.bets}</td>
+                    <td className="text-right">{pct(b.quoted)}</td>
+                    <td className="text-right">{pct(b.realised)}</td>
+                    <td className={`text-right ${Math.abs(b.z) > 2 ? "text-red-600" : ""}`}>
+                      {b.z.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  DERIV_OAUTH_URL,
+  describeDerivBet,
+  type DerivBalance,
+  type DerivBet,
+  type DerivOpenContract,
+  type DerivProposal,
+} from "@/lib/deriv";
+import type { DerivSession } from "@/hooks/use-deriv-account";
+
+const STATUS_CLASS: Partial<Record<DerivOpenContract["status"], string>> = {
+  won: "text-green-600",
+  lost: "text-red-600",
+  sold: "text-blue-600",
+};
+
+type DerivCardProps = {
+  session: DerivSession | null;
+  balance: DerivBalance | null;
+  pending: boolean;
+  /** The bet on the page as a Deriv contract, or null if Deriv has no equivalent. */
+  bet: DerivBet | null;
+  /** What we offer for the same bet and stake. */
+  ourPayout: number;
+  proposal: DerivProposal | null;
+  contracts: DerivOpenContract[];
+  buying: boolean;
+  error: string | null;
+  onLogin: (token: string) => void;
+  onLogout: () => void;
+  onBuy: () => void;
+};
+
+/** Optional real Deriv account: balance, Deriv's price for the same bet, and buying it there. */
+export function DerivCard({
+  session,
+  balance,
+  pending,
+  bet,
+  ourPayout,
+  proposal,
+  contracts,
+  buying,
+  error,
+  onLogin,
+  onLogout,
+  onBuy,
+}: DerivCardProps) {
+  const [token, setToken] = useState("");
+  const real = session?.account.is_virtual === 0;
+  const money = (x: number) => `${x.toFixed(2)} ${balance?.currency ?? ""}`.trim();
+
+  const handleBuy = () => {
+    // Real-money accounts get one more chance to back out
+    if (real && !window.confirm(`Buy on ${session.account.loginid} with real money?`)) return;
+    onBuy();
+  };
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">Deriv Account</h2>
+          {session && (
+            <p className="text-sm space-x-2">
+              <span className="font-mono">{session.account.loginid}</span>
+              <Badge variant={real ? "destructive" : "secondary"}>{real ? "Real" : "Demo"}</Badge>
+            </p>
+          )}
+        </div>
+
+        {!session ? (
+          <>
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="deriv-token">API token (Read and Trade scopes)</Label>
+                <Input
+                  id="deriv-token"
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                />
+              </div>
+              <Button disabled={!token.trim() || pending} onClick={() => onLogin(token)}>
+                {pending ? "Logging in…" : "Log in"}
+              </Button>
+            </div>
+            <p className="text-sm text-gray-600">
+              Or{" "}
+              <a href={DERIV_OAUTH_URL} className="underline">
+                log in with Deriv
+              </a>
+              ; the token stays in this tab and is only sent to Deriv.
+            </p>
+          </>
+        ) : (
+          <div className="flex items-baseline justify-between">
+            <p className="text-2xl font-mono">{balance ? money(balance.balance) : "--"}</p>
+            <Button variant="outline" size="sm" onClick={onLogout}>
+              Log out
+            </Button>
+          </div>
+        )}
+
+        {/* Same bet, priced by us and by Deriv */}
+        {session &&
+          (bet ? (
+            <div className="p-4 bg-gray-50 rounded-xl space-y-2 text-sm">
+              <p className="text-gray-500">Deriv contract: {describeDerivBet(bet)}</p>
+              {proposal && <p>{proposal.longcode}</p>}
+              <table className="w-full">
+                <tbody>
+                  <tr>
+                    <td>Our payout</td>
+                    <td className="text-right font-mono">${ourPayout.toFixed(2)}</td>
+                  </tr>
+                  <tr>
+                    <td>Deriv payout</td>
+                    <td className="text-right font-mono">
+                      {proposal ? money(proposal.payout) : "…"}
+                    </td>
+                  </tr>
+                  {proposal && (
+                    <tr className="font-semibold">
+                      <td>Difference</td>
+                      <td className="text-right font-mono">
+                        {ourPayout - proposal.payout >= 0 ? "+" : ""}
+                        {(ourPayout - proposal.payout).toFixed(2)}
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+              <Button className="w-full" disabled={!proposal || buying} onClick={handleBuy}>
+                {buying
+                  ? "Buying…"
+                  : proposal
+                    ? `Buy on Deriv for ${money(proposal.ask_price)}`
+                    : "Waiting for Deriv's price…"}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Deriv has no contract for this bet. Its digit contracts settle on the final digit
+              only: any one-tick digit rule it offers, or matches / differs up to 10 ticks.
+            </p>
+          ))}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {contracts.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium">Contract</th>
+                <th className="font-medium">Status</th>
+                <th className="font-medium text-right">Cost</th>
+                <th className="font-medium text-right">Profit</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contracts.map((c) => (
+                <tr key={c.contract_id} title={c.longcode}>
+                  <td className="font-mono">
+                    {c.underlying} {c.contract_type}
+                  </td>
+                  <td className={STATUS_CLASS[c.status] ?? ""}>
+                    {c.status}
+                    {c.status === "open" && c.tick_count ? ` (${c.tick_count}t)` : ""}
+                  </td>
+                  <td className="text-right font-mono">{c.buy_price.toFixed(2)}</td>
+                  <td className="text-right font-mono">{c.profit.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
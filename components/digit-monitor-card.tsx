@@ -0,0 +1,116 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { ALPHA, MIN_SAMPLES, type DigitStats } from "@/lib/digit-stats";
+
+const pValue = (p: number) => (p < 1e-4 ? p.toExponential(1) : p.toFixed(4));
+
+type DigitMonitorCardProps = {
+  symbol: string;
+  stats: DigitStats;
+  onReset: () => void;
+};
+
+/** Histogram, transition matrix and uniformity tests of a market's last digits. */
+export function DigitMonitorCard({ symbol, stats, onReset }: DigitMonitorCardProps) {
+  const { n, counts, transitions, chiSquare, serial } = stats;
+  const histogram = counts.map((count, digit) => ({ digit, count }));
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Digit Monitor · {symbol}</h2>
+          <Button variant="outline" size="sm" onClick={onReset}>
+            Reset
+          </Button>
+        </div>
+
+        <p className="text-sm">
+          {n} digits observed
+          {n < MIN_SAMPLES && (
+            <span className="text-gray-500"> (tests need at least {MIN_SAMPLES})</span>
+          )}
+        </p>
+
+        <div className="h-40 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={histogram} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="digit" />
+              <YAxis allowDecimals={false} width={40} />
+              <Tooltip labelFormatter={(d) => `Digit ${d}`} />
+              <ReferenceLine y={n / 10} stroke="#9ca3af" strokeDasharray="4 4" />
+              <Bar dataKey="count" fill="#2563eb" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p>
+            χ² uniformity: <span className="font-mono">{chiSquare.stat.toFixed(2)}</span>{" "}
+            (df {chiSquare.df}), p = <span className="font-mono">{pValue(chiSquare.p)}</span>
+          </p>
+          <p>
+            Lag-1 correlation: <span className="font-mono">{serial.r.toFixed(4)}</span>, p ={" "}
+            <span className="font-mono">{pValue(serial.p)}</span>
+          </p>
+        </div>
+        {stats.deviates && (
+          <Badge variant="destructive">
+            Digits deviate from uniform i.i.d. at the {ALPHA * 100}% level — prices may be off
+          </Badge>
+        )}
+
+        {/* Transition matrix: row = previous digit, column = next digit, % of row */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs font-mono text-center">
+            <thead>
+              <tr className="text-gray-500">
+                <th>↓prev / next→</th>
+                {counts.map((_, b) => (
+                  <th key={b}>{b}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {transitions.map((row, a) => {
+                const total = row.reduce((x, y) => x + y, 0);
+                return (
+                  <tr key={a}>
+                    <th className="text-gray-500">{a}</th>
+                    {row.map((c, b) => {
+                      const share = total ? c / total : 0;
+                      return (
+                        <td
+                          key={b}
+                          style={{ backgroundColor: `rgba(37, 99, 235, ${Math.min(1, share * 3)})` }}
+                          className={share > 0.2 ? "text-white" : ""}
+                        >
+                          {total ? Math.round(share * 100) : "–"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  gameOdds,
+  handTotal,
+  solveStrategy,
+  stateOf,
+  type BlackjackGame,
+  type HandOdds,
+} from "@/lib/blackjack";
+import { describeSpec, liveQuote } from "@/lib/contract-types";
+import { isSettled, type Contract } from "@/lib/contracts";
+
+type Exposure = {
+  symbol: string;
+  count: number;
+  staked: number;
+  /** Net loss if every open contract and game wins. */
+  worstCase: number;
+  /** Net loss weighted by each position's live odds. */
+  expected: number;
+};
+
+/** What the house has at risk on one open contract or blackjack game. */
+type Position = {
+  symbol: string;
+  stake: number;
+  payout: number;
+  /** P(paying out) and, for games, P(handing the stake back on a push). */
+  win: number;
+  push: number;
+};
+
+// Pending contracts have no entry tick yet, so they still carry their quote
+const liveP = (c: Contract) => (c.status === "open" ? liveQuote(c).p : c.probability);
+
+const contractPosition = (c: Contract): Position => ({
+  symbol: c.symbol,
+  stake: c.stake,
+  payout: c.payout,
+  win: liveP(c),
+  push: 0,
+});
+
+/**
+ * A game's odds under optimal play from where its hand stands while the
+ * player is to act, else from the deal, on the multiplier it was dealt at.
+ */
+const gameOddsNow = (g: BlackjackGame): HandOdds => {
+  const multiplier = g.payout / g.stake;
+  const state = g.phase === "player" ? stateOf(solveStrategy(g.rules, multiplier), g.player) : null;
+  return state ?? gameOdds(g.rules, multiplier);
+};
+
+const gamePosition = (g: BlackjackGame): Position => {
+  const { win, push } = gameOddsNow(g);
+  return { symbol: g.symbol, stake: g.stake, payout: g.payout, win, push };
+};
+
+const empty = (symbol: string): Exposure => ({
+  symbol,
+  count: 0,
+  staked: 0,
+  worstCase: 0,
+  expected: 0,
+});
+
+const add = (row: Exposure, p: Position): Exposure => ({
+  ...row,
+  count: row.count + 1,
+  staked: row.staked + p.stake,
+  worstCase: row.worstCase + p.payout - p.stake,
+  expected: row.expected + p.win * p.payout + p.push * p.stake - p.stake,
+});
+
+/** One row per market, largest worst case first. */
+const exposureBy = (open: Position[]): Exposure[] => {
+  const rows = new Map<string, Exposure>();
+  for (const p of open) rows.set(p.symbol, add(rows.get(p.symbol) ?? empty(p.symbol), p));
+  return [...rows.values()].sort((a, b) => b.worstCase - a.worstCase);
+};
+
+const money = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toFixed(2)}`;
+
+type ExposureCardProps = {
+  contracts: Contract[];
+  /** Blackjack games still being played. */
+  games: BlackjackGame[];
+  labelOf: (symbol: string) => string;
+};
+
+/**
+ * What the house stands to lose on the contracts still running and the
+ * blackjack games still being played, per market and in total.
+ */
+export function ExposureCard({ contracts, games, labelOf }: ExposureCardProps) {
+  const open = contracts.filter((c) => !isSettled(c));
+  const gamePositions = useMemo(() => games.map(gamePosition), [games]);
+  const positions = [...open.map(contractPosition), ...gamePositions];
+  const rows = exposureBy(positions);
+  const total = positions.reduce(add, empty("Total"));
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <h2 className="text-xl font-bold">Exposure</h2>
+        {positions.length === 0 ? (
+          <p className="text-sm text-center text-gray-500">No open contracts or games.</p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th>Market</th>
+                  <th className="text-right">Open</th>
+                  <th className="text-right">Staked</th>
+                  <th className="text-right">Worst case</th>
+                  <th className="text-right">Expected</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...rows, total].map((r) => (
+                  <tr key={r.symbol} className={r === total ? "font-semibold border-t" : ""}>
+                    <td>{r === total ? r.symbol : labelOf(r.symbol)}</td>
+                    <td className="text-right">{r.count}</td>
+                    <td className="text-right font-mono">{money(r.staked)}</td>
+                    <td className="text-right font-mono">{money(r.worstCase)}</td>
+                    <td className="text-right font-mono">{money(r.expected)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {open.length > 0 && <h3 className="font-semibold">Open contracts</h3>}
+            <table className="w-full text-sm">
+              <tbody>
+                {open.map((c) => (
+                  <tr key={c.id}>
+                    <td>{c.symbol}</td>
+                    <td className="font-mono">
+                      {describeSpec(c.spec)} / {c.duration}t
+                    </td>
+                    <td className="text-right">
+                      {c.status === "pending" ? "pending" : `${c.digits.length}/${c.duration}`}
+                    </td>
+                    <td className="text-right font-mono">
+                      ${c.stake.toFixed(2)} → ${c.payout.toFixed(2)}
+                    </td>
+                    <td className="text-right">{(liveP(c) * 100).toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {games.length > 0 && <h3 className="font-semibold">Open blackjack games</h3>}
+            <table className="w-full text-sm">
+              <tbody>
+                {games.map((g, i) => (
+                  <tr key={g.id}>
+                    <td>{g.symbol}</td>
+                    <td className="font-mono">
+                      {handTotal(g.player)} vs {handTotal(g.dealer)}
+                    </td>
+                    <td className="text-right">{g.phase}</td>
+                    <td className="text-right font-mono">
+                      ${g.stake.toFixed(2)} → ${g.payout.toFixed(2)}
+                    </td>
+                    <td className="text-right">{(gamePositions[i].win * 100).toFixed(2)}%</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,238 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CONTRACT_TYPE_OPTIONS,
+  describeSpec,
+  type ContractType,
+} from "@/lib/contract-types";
+import type { MarketConfig } from "@/lib/config";
+import { isSettled, type Contract, type ContractStatus } from "@/lib/contracts";
+import { DIRECTION_TYPES, filterToParams, type HistoryFilter } from "@/lib/history";
+import { findMarket } from "@/lib/markets";
+import { useHistory } from "@/hooks/use-history";
+
+const ALL = "all"; // Select items cannot carry an empty value
+
+const STATUS_LABEL: Record<ContractStatus, string> = {
+  pending: "Pending",
+  open: "Open",
+  won: "Won",
+  lost: "Lost",
+  void: "Void",
+  sold: "Sold",
+};
+
+const STATUS_CLASS: Record<ContractStatus, string> = {
+  pending: "text-gray-500",
+  open: "text-gray-500",
+  won: "text-green-600",
+  lost: "text-red-600",
+  void: "text-amber-600",
+  sold: "text-blue-600",
+};
+
+type FilterSelectProps = {
+  label: string;
+  value: string | undefined;
+  options: { label: string; value: string }[];
+  disabled?: boolean;
+  onChange: (v: string | undefined) => void;
+};
+
+const FilterSelect = ({ label, value, options, disabled, onChange }: FilterSelectProps) => (
+  <div className="space-y-1">
+    <Label>{label}</Label>
+    <Select
+      value={value ?? ALL}
+      disabled={disabled}
+      onValueChange={(v) => onChange(v === ALL ? undefined : v)}
+    >
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All</SelectItem>
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+/**
+ * Market filter options: every configured market, plus any the history holds
+ * (or the filter names) that the operator has since dropped.
+ */
+const marketOptions = (markets: MarketConfig[], contracts: Contract[], selected?: string) => {
+  const options = markets.map((m) => ({ label: m.label, value: m.symbol }));
+  const known = new Set(options.map((o) => o.value));
+  for (const symbol of [...contracts.map((c) => c.symbol), ...(selected ? [selected] : [])]) {
+    if (known.has(symbol)) continue;
+    known.add(symbol);
+    options.push({ label: findMarket(symbol)?.label ?? symbol, value: symbol });
+  }
+  return options;
+};
+
+type HistoryCardProps = {
+  /** Configured markets, enabled or not. */
+  markets: MarketConfig[];
+  version: unknown;
+};
+
+/** Every stored contract, with filters and CSV/JSON export of the filtered set. */
+export function HistoryCard({ markets, version }: HistoryCardProps) {
+  const [filter, setFilter] = useState<HistoryFilter>({});
+  const { contracts, error } = useHistory(filter, version);
+  const symbols = useMemo(
+    () => marketOptions(markets, contracts, filter.symbol),
+    [markets, contracts, filter.symbol],
+  );
+  const set = (patch: Partial<HistoryFilter>) => setFilter((f) => ({ ...f, ...patch }));
+  const exportHref = (format: "csv" | "json") =>
+    `/api/contracts?${filterToParams(filter)}&format=${format}`;
+  // Only some types bet Higher or Lower; picking another type drops the direction
+  const directed = !filter.type || DIRECTION_TYPES.includes(filter.type);
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Bet History</h2>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportHref("csv")}>CSV</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={exportHref("json")}>JSON</a>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          <FilterSelect
+            label="Market"
+            value={filter.symbol}
+            options={symbols}
+            onChange={(symbol) => set({ symbol })}
+          />
+          <FilterSelect
+            label="Type"
+            value={filter.type}
+            options={CONTRACT_TYPE_OPTIONS}
+            onChange={(v) => {
+              const type = v as ContractType | undefined;
+              const keep = !type || DIRECTION_TYPES.includes(type);
+              set({ type, direction: keep ? filter.direction : undefined });
+            }}
+          />
+          <FilterSelect
+            label="Direction"
+            value={filter.direction}
+            options={[
+              { label: "Higher", value: "Higher" },
+              { label: "Lower", value: "Lower" },
+            ]}
+            disabled={!directed}
+            onChange={(v) => set({ direction: v as HistoryFilter["direction"] })}
+          />
+          <FilterSelect
+            label="Outcome"
+            value={filter.status}
+            options={(["won", "lost", "sold", "void", "open"] as const).map((s) => ({
+              label: STATUS_LABEL[s],
+              value: s,
+            }))}
+            onChange={(v) => set({ status: v as ContractStatus | undefined })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="history-from">From</Label>
+            <Input
+              id="history-from"
+              type="date"
+              value={filter.from ?? ""}
+              onChange={(e) => set({ from: e.target.value || undefined })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="history-to">To</Label>
+            <Input
+              id="history-to"
+              type="date"
+              value={filter.to ?? ""}
+              onChange={(e) => set({ to: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {contracts.length === 0 ? (
+          <p className="text-sm text-center text-gray-500">No bets yet.</p>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium">Time</th>
+                  <th className="font-medium">Market</th>
+                  <th className="font-medium">Bet</th>
+                  <th className="font-medium">Digits</th>
+                  <th className="font-medium text-right">Stake</th>
+                  <th className="font-medium text-right">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contracts.map((c) => (
+                  <tr key={c.id} className="align-top">
+                    <td className="font-mono">{new Date(c.createdAt).toLocaleTimeString()}</td>
+                    <td>{c.symbol}</td>
+                    <td className="font-mono">
+                      {describeSpec(c.spec)} / {c.duration}t
+                    </td>
+                    <td className="font-mono">
+                      {c.digits.join(" ")} {c.digits.length > 0 && `(${c.sum})`}
+                    </td>
+                    <td className="font-mono text-right">${c.stake.toFixed(2)}</td>
+                    <td className={`text-right ${STATUS_CLASS[c.status]}`}>
+                      {c.status === "won"
+                        ? `+$${c.payout.toFixed(2)}`
+                        : c.status === "sold"
+                          ? `Sold $${c.soldFor?.toFixed(2)}`
+                          : STATUS_LABEL[c.status]}
+                      {isSettled(c) && (
+                        <Link
+                          href={`/verify?contract=${c.id}`}
+                          className="block text-xs text-gray-500 underline"
+                        >
+                          Receipt
+                        </Link>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
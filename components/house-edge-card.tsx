@@ -0,0 +1,79 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { dealerOdds, type BlackjackQuote, type BlackjackRules } from "@/lib/blackjack";
+
+const pct = (p: number) => `${(p * 100).toFixed(2)}%`;
+
+type HouseEdgeCardProps = {
+  rules: BlackjackRules;
+  quote: BlackjackQuote;
+};
+
+/** Exact odds of a game under optimal play, what a win pays, and the house's edge. */
+export function HouseEdgeCard({ rules, quote }: HouseEdgeCardProps) {
+  const dealer = useMemo(() => dealerOdds(rules), [rules]);
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <h2 className="text-xl font-bold">House Edge</h2>
+        <p className="text-sm text-gray-600">
+          Cards are tick digits 0–9. You are dealt {rules.initialCards} and may hold up to{" "}
+          {rules.maxCards}, the dealer draws to {rules.dealerStandsOn} and anything over{" "}
+          {rules.bustLimit} busts. A push returns the stake.
+        </p>
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <p>
+            Fair win multiplier: <span className="font-mono">{quote.fair.toFixed(4)}×</span>
+          </p>
+          <p>
+            Offered: <span className="font-mono font-semibold">{quote.multiplier.toFixed(4)}×</span>
+          </p>
+          <p>
+            Win / push / lose:{" "}
+            <span className="font-mono">
+              {pct(quote.win)} / {pct(quote.push)} / {pct(quote.lose)}
+            </span>
+          </p>
+          <p>
+            House edge (optimal play):{" "}
+            <span className="font-mono font-semibold">{pct(quote.houseEdge)}</span>
+          </p>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-medium">Dealer ends on</th>
+              {dealer.totals.map(
+                (p, t) =>
+                  p > 0 && (
+                    <th key={t} className="font-medium text-right">
+                      {t}
+                    </th>
+                  ),
+              )}
+              <th className="font-medium text-right">Bust</th>
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            <tr>
+              <td />
+              {dealer.totals.map(
+                (p, t) =>
+                  p > 0 && (
+                    <td key={t} className="text-right">
+                      {pct(p)}
+                    </td>
+                  ),
+              )}
+              <td className="text-right">{pct(dealer.bust)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  );
+}
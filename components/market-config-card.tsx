@@ -0,0 +1,156 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CONTRACT_TYPE_OPTIONS, type ContractType } from "@/lib/contract-types";
+import { MAX_TARGET, type MarketConfig } from "@/lib/config";
+import { MAX_DURATION } from "@/lib/pricing";
+
+type MarketConfigCardProps = {
+  markets: MarketConfig[];
+  disabled?: boolean;
+  onChange: (markets: MarketConfig[]) => void;
+};
+
+const int = (s: string, min: number, max: number) =>
+  Math.max(min, Math.min(max, parseInt(s, 10) || min));
+
+/** Per-market switches: open or closed, display label, durations, targets & contract types. */
+export function MarketConfigCard({ markets, disabled, onChange }: MarketConfigCardProps) {
+  const edit = (symbol: string, patch: Partial<MarketConfig>) =>
+    onChange(markets.map((m) => (m.symbol === symbol ? { ...m, ...patch } : m)));
+
+  const toggleType = (m: MarketConfig, type: ContractType, on: boolean) =>
+    edit(m.symbol, {
+      contractTypes: on
+        ? CONTRACT_TYPE_OPTIONS.map((o) => o.value).filter(
+            (t) => t === type || m.contractTypes.includes(t),
+          )
+        : m.contractTypes.filter((t) => t !== type),
+    });
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <h2 className="text-xl font-bold">Markets</h2>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th>Open</th>
+                <th>Symbol</th>
+                <th>Label</th>
+                <th>Ticks</th>
+                <th>Targets</th>
+                <th>Contract types</th>
+              </tr>
+            </thead>
+            <tbody>
+              {markets.map((m) => (
+                <tr key={m.symbol} className="align-top">
+                  <td className="py-2">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4"
+                      aria-label={`Offer ${m.symbol}`}
+                      disabled={disabled}
+                      checked={m.enabled}
+                      onChange={(e) => edit(m.symbol, { enabled: e.target.checked })}
+                    />
+                  </td>
+                  <td className="py-2 font-mono">{m.symbol}</td>
+                  <td className="py-2 pr-2">
+                    <Input
+                      value={m.label}
+                      disabled={disabled}
+                      onChange={(e) => edit(m.symbol, { label: e.target.value })}
+                    />
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        className="w-16"
+                        min={1}
+                        max={m.maxDuration}
+                        aria-label={`${m.symbol} shortest duration`}
+                        disabled={disabled}
+                        value={m.minDuration}
+                        onChange={(e) =>
+                          edit(m.symbol, { minDuration: int(e.target.value, 1, m.maxDuration) })
+                        }
+                      />
+                      –
+                      <Input
+                        type="number"
+                        className="w-16"
+                        min={m.minDuration}
+                        max={MAX_DURATION}
+                        aria-label={`${m.symbol} longest duration`}
+                        disabled={disabled}
+                        value={m.maxDuration}
+                        onChange={(e) =>
+                          edit(m.symbol, {
+                            maxDuration: int(e.target.value, m.minDuration, MAX_DURATION),
+                          })
+                        }
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2 pr-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        type="number"
+                        className="w-16"
+                        min={0}
+                        max={m.maxTarget}
+                        aria-label={`${m.symbol} lowest target`}
+                        disabled={disabled}
+                        value={m.minTarget}
+                        onChange={(e) =>
+                          edit(m.symbol, { minTarget: int(e.target.value, 0, m.maxTarget) })
+                        }
+                      />
+                      –
+                      <Input
+                        type="number"
+                        className="w-16"
+                        min={m.minTarget}
+                        max={MAX_TARGET}
+                        aria-label={`${m.symbol} highest target`}
+                        disabled={disabled}
+                        value={m.maxTarget}
+                        onChange={(e) =>
+                          edit(m.symbol, {
+                            maxTarget: int(e.target.value, m.minTarget, MAX_TARGET),
+                          })
+                        }
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2">
+                    <div className="flex flex-wrap gap-x-3 gap-y-1">
+                      {CONTRACT_TYPE_OPTIONS.map((o) => (
+                        <label key={o.value} className="flex items-center gap-1 whitespace-nowrap">
+                          <input
+                            type="checkbox"
+                            className="h-4 w-4"
+                            disabled={disabled}
+                            checked={m.contractTypes.includes(o.value)}
+                            onChange={(e) => toggleType(m, o.value, e.target.checked)}
+                          />
+                          {o.label}
+                        </label>
+                      ))}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import { describeSpec } from "@/lib/contract-types";
+import {
+  payoutTable,
+  sumDistribution,
+  type TargetBounds,
+  type TargetSpec,
+} from "@/lib/payout-table";
+import type { PricingPolicy } from "@/lib/policy";
+
+const pct = (p: number) => `${(p * 100).toFixed(p < 0.001 ? 4 : 2)}%`;
+
+type PayoutTableCardProps = {
+  spec: TargetSpec;
+  duration: number;
+  stake: number;
+  policy: PricingPolicy;
+  /** The market's limits on targets; only those within are listed. */
+  bounds?: TargetBounds;
+  disabled?: boolean;
+  onTarget: (target: number) => void;
+};
+
+/** Odds and payouts for every target, with the sum distribution shaded where the bet wins. */
+export function PayoutTableCard({
+  spec,
+  duration,
+  stake,
+  policy,
+  bounds,
+  disabled,
+  onTarget,
+}: PayoutTableCardProps) {
+  const rows = useMemo(
+    () => payoutTable(policy, stake, spec, duration, bounds),
+    [policy, stake, spec, duration, bounds],
+  );
+  const bars = useMemo(() => sumDistribution(spec, duration), [spec, duration]);
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">Payout Table</h2>
+          <p className="text-sm text-gray-500">
+            {describeSpec(spec)} over {duration} ticks, ${stake.toFixed(2)} stake
+          </p>
+        </div>
+
+        {/* Sum distribution; winning sums in green */}
+        <div className="h-40 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={bars} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="sum" tick={{ fontSize: 10 }} />
+              <YAxis tickFormatter={(v: number) => `${Math.round(v * 100)}%`} width={40} />
+              <Tooltip
+                formatter={(v: number) => [pct(v), "P(sum)"]}
+                labelFormatter={(s) => `Sum ${s}`}
+              />
+              <ReferenceLine x={spec.target} stroke="#111827" strokeDasharray="4 4" />
+              <Bar dataKey="p" isAnimationActive={false}>
+                {bars.map((b) => (
+                  <Cell key={b.sum} fill={b.win ? "#16a34a" : "#d1d5db"} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Click a row to bet on that target */}
+        <div className="max-h-72 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-gray-500">
+                <th>Target</th>
+                <th className="text-right">Win</th>
+                <th className="text-right">Fair</th>
+                <th className="text-right">Offered</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr
+                  key={r.target}
+                  title={r.rejection ?? undefined}
+                  onClick={() => !disabled && onTarget(r.target)}
+                  className={`${disabled ? "" : "cursor-pointer hover:bg-gray-50"} ${
+                    r.target === spec.target ? "bg-blue-50 font-semibold" : ""
+                  } ${r.rejection ? "text-gray-400" : ""}`}
+                >
+                  <td className="font-mono">{r.target}</td>
+                  <td className="text-right font-mono">{pct(r.p)}</td>
+                  <td className="text-right font-mono">${r.fair.toFixed(2)}</td>
+                  <td className="text-right font-mono">
+                    {r.rejection ? "—" : `$${r.offered.toFixed(2)}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
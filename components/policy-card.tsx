@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { PricingPolicy } from "@/lib/policy";
+
+const FIELDS: { key: keyof PricingPolicy; label: string; step: number }[] = [
+  { key: "minStake", label: "Min stake ($)", step: 0.01 },
+  { key: "maxStake", label: "Max stake ($)", step: 1 },
+  { key: "maxLiability", label: "Max liability per contract ($)", step: 1 },
+  { key: "maxPayoutMultiplier", label: "Max payout (× stake)", step: 1 },
+  { key: "minProbability", label: "Min win probability", step: 0.001 },
+  { key: "baseMargin", label: "Base margin", step: 0.005 },
+  { key: "probabilityMargin", label: "Margin × (1 − p)", step: 0.005 },
+  { key: "durationMargin", label: "Margin per extra tick", step: 0.0001 },
+  { key: "maxMargin", label: "Max margin", step: 0.005 },
+];
+
+type PolicyCardProps = {
+  policy: PricingPolicy;
+  disabled?: boolean;
+  onChange: (policy: PricingPolicy) => void;
+};
+
+/** Stake and payout limits plus the dynamic margin; probabilities and margins are fractions. */
+export function PolicyCard({ policy, disabled, onChange }: PolicyCardProps) {
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <h2 className="text-xl font-bold">Pricing policy</h2>
+        <div className="grid grid-cols-2 gap-3">
+          {FIELDS.map((f) => (
+            <div key={f.key} className="space-y-1">
+              <Label htmlFor={f.key}>{f.label}</Label>
+              <Input
+                id={f.key}
+                type="number"
+                min={0}
+                step={f.step}
+                disabled={disabled}
+                value={policy[f.key]}
+                onChange={(e) => onChange({ ...policy, [f.key]: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { describeSpec, liveQuote, measureSpec } from "@/lib/contract-types";
+import { isSettled, type Contract, type ContractStatus } from "@/lib/contracts";
+import { formatQuote } from "@/lib/markets";
+import type { Tick } from "@/lib/feeds";
+import { useTickFeed } from "@/hooks/use-tick-feed";
+
+const RECENT_ROWS = 5; // contracts settled this session, listed under the open ones
+
+const RESULT_CLASS: Partial<Record<ContractStatus, string>> = {
+  won: "text-green-600",
+  lost: "text-red-600",
+  void: "text-amber-600",
+  sold: "text-blue-600",
+};
+
+const result = (c: Contract) =>
+  c.status === "won"
+    ? `Won $${c.payout.toFixed(2)}`
+    : c.status === "sold"
+      ? `Sold $${c.soldFor?.toFixed(2)}`
+      : c.status === "void"
+        ? "Void, refunded"
+        : "Lost";
+
+const clock = (epoch: number) => new Date(epoch * 1000).toLocaleTimeString();
+
+/** One tick: its quote with the last digit picked out, and when it ticked. */
+const TickQuote = ({ tick, label }: { tick: Tick; label?: string }) => {
+  const q = formatQuote(tick.quote, tick.pipSize);
+  return (
+    <div className="flex flex-col items-center font-mono" title={`Epoch ${tick.epoch}`}>
+      {label ? (
+        <Badge variant="outline" className="text-sm">
+          {label}
+        </Badge>
+      ) : (
+        <Badge variant="secondary" className="text-sm">
+          {q[q.length - 1]}
+        </Badge>
+      )}
+      <span className="text-[10px]">
+        {q.slice(0, -1)}
+        <span className="font-bold">{q[q.length - 1]}</span>
+      </span>
+      <span className="text-[10px] text-gray-500">{clock(tick.epoch)}</span>
+    </div>
+  );
+};
+
+/**
+ * The entry spot, then each settlement tick with its quote and time, then a
+ * placeholder for each tick still to come.
+ */
+const DigitDisplay = ({ contract }: { contract: Contract }) => (
+  <div className="flex flex-wrap gap-1 items-start">
+    {contract.entry && <TickQuote tick={contract.entry} label="Entry" />}
+    {contract.ticks.map((t) => (
+      <TickQuote key={t.id} tick={t} />
+    ))}
+    {Array.from({ length: contract.duration - contract.digits.length }).map((_, i) => (
+      <Badge key={`p${i}`} variant="outline" className="opacity-50 font-mono text-sm">
+        ?
+      </Badge>
+    ))}
+  </div>
+);
+
+type PositionProps = {
+  contract: Contract;
+  label: string;
+  onSell: (id: string, price: number) => void;
+};
+
+/** One open contract, following its own market on the shared feed. */
+const Position = ({ contract, label: marketLabel, onSell }: PositionProps) => {
+  const { quote, pipSize } = useTickFeed(contract.feed, contract.symbol);
+  const [label, value] = measureSpec(contract.spec, contract.digits);
+  const live = contract.status === "open" ? liveQuote(contract) : null;
+  const ticksLeft = contract.duration - contract.digits.length;
+
+  return (
+    <div className="p-3 rounded-xl bg-gray-50 space-y-2">
+      <div className="flex items-baseline justify-between text-sm">
+        <p className="font-medium">
+          {marketLabel}
+          <span className="ml-2 font-mono text-gray-500">
+            {quote !== null ? formatQuote(quote, pipSize) : "--"}
+          </span>
+        </p>
+        <p className="font-mono">${contract.stake.toFixed(2)} → ${contract.payout.toFixed(2)}</p>
+      </div>
+      <p className="text-sm">
+        {describeSpec(contract.spec)} / {contract.duration}t ·{" "}
+        {contract.status === "pending" ? "waiting for entry tick…" : `${ticksLeft} ticks left`}
+      </p>
+      <DigitDisplay contract={contract} />
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm">
+          {label}: <span className="font-semibold">{value ?? "–"}</span>
+          {live && (
+            <>
+              {" "}
+              · win <span className="font-semibold">{(live.p * 100).toFixed(2)}%</span> · sell{" "}
+              <span className="font-semibold">${live.sellPrice.toFixed(2)}</span>
+            </>
+          )}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={!live || live.sellPrice <= 0}
+          onClick={() => live && onSell(contract.id, live.sellPrice)}
+        >
+          Sell now
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+type PortfolioCardProps = {
+  contracts: Contract[];
+  /** Display name of a market, as the operator labels it. */
+  labelOf: (symbol: string) => string;
+  onSell: (id: string, price: number) => void;
+};
+
+/** Every open contract with its live digits, plus those settled this session. */
+export function PortfolioCard({ contracts, labelOf, onSell }: PortfolioCardProps) {
+  const open = contracts.filter((c) => !isSettled(c));
+  const recent = contracts.filter((c) => isSettled(c)).slice(0, RECENT_ROWS);
+  const atRisk = open.reduce((a, c) => a + c.stake, 0);
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">Portfolio</h2>
+          <p className="text-sm">
+            {open.length} open · ${atRisk.toFixed(2)} staked
+          </p>
+        </div>
+
+        {open.length === 0 ? (
+          <p className="text-sm text-center text-gray-500">No open contracts.</p>
+        ) : (
+          open.map((c) => (
+            <Position key={c.id} contract={c} label={labelOf(c.symbol)} onSell={onSell} />
+          ))
+        )}
+
+        {recent.length > 0 && (
+          <table className="w-full text-sm">
+            <tbody>
+              {recent.map((c) => (
+                <tr key={c.id}>
+                  <td>{c.symbol}</td>
+                  <td className="font-mono">
+                    {describeSpec(c.spec)} / {c.duration}t
+                  </td>
+                  <td className="font-mono">{c.digits.join(" ")}</td>
+                  <td className={`text-right ${RESULT_CLASS[c.status] ?? ""}`}>{result(c)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Brush,
+  ReferenceArea,
+  ReferenceDot,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import { isSettled, type Contract } from "@/lib/contracts";
+import type { Tick } from "@/lib/feeds";
+import { formatQuote, lastDigit } from "@/lib/markets";
+
+const WINDOW_OPTIONS = [100, 250, 500, 1000, 2500, 5000];
+
+const clock = (epoch: number) => new Date(epoch * 1000).toLocaleTimeString();
+
+/**
+ * Following the newest ticks with the last `span` in view, or zoomed onto a
+ * fixed stretch of time that stays put as ticks arrive.
+ */
+type View = { live: true; span: number } | { live: false; from: number; to: number };
+
+const LIVE: View = { live: true, span: Infinity };
+
+type Point = { epoch: number; price: number; digit: number; sum: number | null };
+
+type PriceChartProps = {
+  /** Ticks seen on the market, oldest first. */
+  ticks: Tick[];
+  pipSize: number;
+  /** Contracts on this market and feed, marked where they entered and settled. */
+  contracts: Contract[];
+  /** Ticks summed in the rolling digit sum: the duration being priced. */
+  duration: number;
+};
+
+/** Quotes over time with contract markers, a digit-sum overlay, and brush zoom & pan. */
+export function PriceChart({ ticks, pipSize, contracts, duration }: PriceChartProps) {
+  const [size, setSize] = useState(WINDOW_OPTIONS[0]);
+  const [showSum, setShowSum] = useState(false);
+  const [view, setView] = useState<View>(LIVE);
+
+  const points = useMemo(() => {
+    const digits = ticks.map((t) => lastDigit(t.quote, t.pipSize));
+    let run = 0;
+    return ticks
+      .map((t, i): Point => {
+        run += digits[i] - (i >= duration ? digits[i - duration] : 0);
+        const sum = i >= duration - 1 ? run : null;
+        return { epoch: t.epoch, price: t.quote, digit: digits[i], sum };
+      })
+      .slice(-size);
+  }, [ticks, duration, size]);
+
+  // The brush works in indices; the view is kept in epochs so it survives new ticks
+  const last = points.length - 1;
+  let start = 0;
+  let end = last;
+  if (view.live) start = Math.max(0, last - view.span + 1);
+  else {
+    start = Math.max(0, points.findIndex((p) => p.epoch >= view.from));
+    while (end > start && points[end].epoch > view.to) end--;
+  }
+  const from = points[start]?.epoch ?? 0;
+  const to = points[end]?.epoch ?? 0;
+  const zoomed = start > 0 || end < last;
+
+  const handleBrush = ({ startIndex = 0, endIndex = last }) =>
+    setView(
+      endIndex >= last
+        ? { live: true, span: endIndex - startIndex + 1 }
+        : { live: false, from: points[startIndex].epoch, to: points[endIndex].epoch },
+    );
+
+  // Contracts with any tick in view
+  const marked = contracts.filter((c) => {
+    if (!c.entry || c.entry.epoch > to) return false;
+    return !isSettled(c) || (c.ticks[c.ticks.length - 1] ?? c.entry).epoch >= from;
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={String(size)}
+          onValueChange={(v) => {
+            setSize(Number(v));
+            setView(LIVE);
+          }}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOW_OPTIONS.map((n) => (
+              <SelectItem key={n} value={String(n)}>
+                Last {n} ticks
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant={showSum ? "secondary" : "outline"}
+          size="sm"
+          onClick={() => setShowSum((s) => !s)}
+        >
+          Digit sum ({duration}t)
+        </Button>
+        <Button variant="ghost" size="sm" disabled={!zoomed} onClick={() => setView(LIVE)}>
+          Reset zoom
+        </Button>
+      </div>
+
+      <div className="h-72 w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={points} margin={{ top: 15, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="epoch"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={clock}
+              tick={{ fontSize: 10 }}
+            />
+            <YAxis
+              yAxisId="price"
+              domain={["auto", "auto"]}
+              tickFormatter={(v: number) => formatQuote(v, pipSize)}
+              tick={{ fontSize: 10 }}
+              width={60}
+            />
+            <YAxis
+              yAxisId="sum"
+              orientation="right"
+              domain={[0, 9 * duration]}
+              hide={!showSum}
+              tick={{ fontSize: 10 }}
+              width={30}
+            />
+            <Tooltip
+              labelFormatter={(epoch: number) => `${clock(epoch)} (epoch ${epoch})`}
+              formatter={(v: number, name: string, item: { payload?: Point }) =>
+                name === "Price"
+                  ? [`$${formatQuote(v, pipSize)} · digit ${item.payload?.digit}`, name]
+                  : [v, name]
+              }
+            />
+
+            {/* Running contracts are shaded from their entry to the latest tick */}
+            {marked
+              .filter((c) => !isSettled(c))
+              .map((c) => (
+                <ReferenceArea
+                  key={`area:${c.id}`}
+                  yAxisId="price"
+                  x1={Math.max(c.entry!.epoch, from)}
+                  x2={to}
+                  fill="#2563eb"
+                  fillOpacity={0.08}
+                  ifOverflow="hidden"
+                />
+              ))}
+
+            <Line
+              yAxisId="price"
+              type="monotone"
+              dataKey="price"
+              name="Price"
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+            {showSum && (
+              <Line
+                yAxisId="sum"
+                type="stepAfter"
+                dataKey="sum"
+                name={`Sum of last ${duration} digits`}
+                stroke="#d97706"
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+
+            {marked.flatMap((c) => [
+              <ReferenceDot
+                key={`entry:${c.id}`}
+                yAxisId="price"
+                x={c.entry!.epoch}
+                y={c.entry!.quote}
+                r={5}
+                fill="#2563eb"
+                stroke="white"
+                ifOverflow="discard"
+                label={{ value: "Entry", position: "top", fontSize: 10 }}
+              />,
+              ...c.ticks.map((t, i) => (
+                <ReferenceDot
+                  key={`${c.id}:${t.id}`}
+                  yAxisId="price"
+                  x={t.epoch}
+                  y={t.quote}
+                  r={3}
+                  fill="#16a34a"
+                  stroke="white"
+                  ifOverflow="discard"
+                  label={{ value: c.digits[i], position: "top", fontSize: 10 }}
+                />
+              )),
+            ])}
+
+            {points.length > 1 && (
+              <Brush
+                dataKey="epoch"
+                height={20}
+                startIndex={start}
+                endIndex={end}
+                tickFormatter={clock}
+                onChange={handleBrush}
+              />
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
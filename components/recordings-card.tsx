@@ -0,0 +1,167 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ReplayProgress } from "@/lib/feeds";
+import { findMarket } from "@/lib/markets";
+import {
+  loadTicks,
+  sessionFileName,
+  type RecordedSession,
+  type SessionSource,
+} from "@/lib/recorder";
+
+const SPEEDS = [1, 2, 5, 10, 50];
+
+const SOURCE_LABEL: Record<SessionSource, string> = {
+  deriv: "Live",
+  sim: "Sim",
+  file: "File",
+};
+
+const time = (epoch: number) => new Date(epoch * 1000).toLocaleString();
+
+const exportSession = async (s: RecordedSession) => {
+  const json = JSON.stringify(await loadTicks(s.id));
+  const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = sessionFileName(s);
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+type RecordingsCardProps = {
+  sessions: RecordedSession[];
+  error: string | null;
+  recording: boolean;
+  onRecordingChange: (recording: boolean) => void;
+  /** Session being replayed, if any, and its playback position. */
+  replaying: RecordedSession | null;
+  progress: ReplayProgress;
+  onReplay: (session: RecordedSession) => void;
+  onSpeedChange: (speed: number) => void;
+  onDelete: (id: number) => void;
+  onImport: (file: File) => void;
+};
+
+/** Recorded tick sessions, with replay, JSON export and import. */
+export function RecordingsCard({
+  sessions,
+  error,
+  recording,
+  onRecordingChange,
+  replaying,
+  progress,
+  onReplay,
+  onSpeedChange,
+  onDelete,
+  onImport,
+}: RecordingsCardProps) {
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold">Tick Recordings</h2>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={recording}
+              onChange={(e) => onRecordingChange(e.target.checked)}
+            />
+            Record live ticks
+          </label>
+        </div>
+
+        {replaying && (
+          <div className="flex items-center justify-between gap-2 text-sm">
+            <p>
+              Replaying {replaying.symbol}: tick {progress.position} of {progress.total}
+            </p>
+            <Select
+              value={String(progress.speed)}
+              onValueChange={(v) => onSpeedChange(Number(v))}
+            >
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SPEEDS.map((x) => (
+                  <SelectItem key={x} value={String(x)}>
+                    {x}×
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-gray-500">No recorded sessions yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-medium">Market</th>
+                  <th className="font-medium">Started</th>
+                  <th className="font-medium text-right">Ticks</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sessions.map((s) => (
+                  <tr key={s.id} className={s.id === replaying?.id ? "bg-gray-50" : ""}>
+                    <td>
+                      {findMarket(s.symbol)?.label ?? s.symbol}{" "}
+                      <span className="text-xs text-gray-500">{SOURCE_LABEL[s.source]}</span>
+                    </td>
+                    <td className="text-xs">{time(s.startEpoch)}</td>
+                    <td className="text-right font-mono">{s.count}</td>
+                    <td className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => onReplay(s)}>
+                        Replay
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => exportSession(s)}>
+                        JSON
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => onDelete(s.id)}>
+                        Delete
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <Label htmlFor="session-file">Import a session (JSON ticks)</Label>
+          <Input
+            id="session-file"
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImport(file);
+              e.target.value = "";
+            }}
+          />
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
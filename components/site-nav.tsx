@@ -0,0 +1,21 @@
+import Link from "next/link";
+
+const LINKS = [
+  { href: "/", label: "Trade" },
+  { href: "/backtest", label: "Backtest" },
+  { href: "/blackjack", label: "Blackjack" },
+  { href: "/verify", label: "Verify" },
+  { href: "/admin", label: "Admin" },
+];
+
+export function SiteNav() {
+  return (
+    <nav className="flex justify-center gap-6 pt-4 text-sm">
+      {LINKS.map((l) => (
+        <Link key={l.href} href={l.href} className="text-gray-600 hover:text-gray-900 hover:underline">
+          {l.label}
+        </Link>
+      ))}
+    </nav>
+  );
+}
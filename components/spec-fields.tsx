@@ -0,0 +1,250 @@
+"use client";
+
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectTrigger,
+  SelectContent,
+  SelectItem,
+  SelectValue,
+} from "@/components/ui/select";
+import { BUST_LIMIT, type ContractSpec } from "@/lib/contract-types";
+import { hasBoundedSum, targetRange, type TargetBounds } from "@/lib/payout-table";
+import type { Direction } from "@/lib/pricing";
+
+type IntFieldProps = {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  disabled?: boolean;
+  onChange: (v: number) => void;
+};
+
+const IntField = ({ id, label, value, min, max, disabled, onChange }: IntFieldProps) => (
+  <div className="space-y-2">
+    <Label htmlFor={id}>{label}</Label>
+    <Input
+      id={id}
+      type="number"
+      min={min}
+      max={max}
+      step={1}
+      disabled={disabled}
+      value={value}
+      onChange={(e) => {
+        const n = parseInt(e.target.value, 10);
+        if (!isNaN(n)) onChange(Math.max(min, Math.min(max, n)));
+      }}
+    />
+  </div>
+);
+
+type ChoiceProps<T extends string> = {
+  label: string;
+  value: T;
+  options: { label: string; value: T }[];
+  disabled?: boolean;
+  onChange: (v: T) => void;
+};
+
+const Choice = <T extends string>({ label, value, options, disabled, onChange }: ChoiceProps<T>) => (
+  <div className="space-y-1">
+    <Label>{label}</Label>
+    <Select value={value} disabled={disabled} onValueChange={(v) => onChange(v as T)}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((o) => (
+          <SelectItem key={o.value} value={o.value}>
+            {o.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const DIRECTIONS: { label: string; value: Direction }[] = [
+  { label: "Higher (>)", value: "Higher" },
+  { label: "Lower (<)", value: "Lower" },
+];
+
+type SpecFieldsProps = {
+  spec: ContractSpec;
+  duration: number;
+  /** The market's limits on sum targets and range ends. */
+  bounds?: TargetBounds;
+  disabled?: boolean;
+  onChange: (spec: ContractSpec) => void;
+};
+
+/** Inputs for the fields of the selected contract type. */
+export function SpecFields({ spec, duration, bounds, disabled, onChange }: SpecFieldsProps) {
+  // Sums the market offers at this duration; none leaves the fields locked
+  const targets = hasBoundedSum(spec) ? targetRange(spec.type, duration, bounds) : null;
+  const lo = targets?.min ?? 0;
+  const hi = targets?.max ?? 0;
+  const locked = disabled || !targets;
+
+  // Direction and "Allow Equal", shared by the one-sided types
+  const oneSided = (s: Extract<ContractSpec, { direction: Direction }>) => (
+    <>
+      <Choice
+        label="Direction"
+        value={s.direction}
+        options={DIRECTIONS}
+        disabled={disabled}
+        onChange={(direction) => onChange({ ...s, direction })}
+      />
+      <div className="flex items-center space-x-2">
+        <input
+          id="allowEqual"
+          type="checkbox"
+          disabled={disabled}
+          checked={s.allowEqual}
+          onChange={(e) => onChange({ ...s, allowEqual: e.target.checked })}
+          className="h-4 w-4"
+        />
+        <Label htmlFor="allowEqual">Allow Equal</Label>
+      </div>
+    </>
+  );
+
+  switch (spec.type) {
+    case "sum":
+      return (
+        <>
+          <IntField
+            id="target"
+            label="Target Sum"
+            value={spec.target}
+            min={lo}
+            max={hi}
+            disabled={locked}
+            onChange={(target) => onChange({ ...spec, target })}
+          />
+          {oneSided(spec)}
+        </>
+      );
+
+    case "equals":
+      return (
+        <IntField
+          id="target"
+          label="Exact Sum"
+          value={spec.target}
+          min={lo}
+          max={hi}
+          disabled={locked}
+          onChange={(target) => onChange({ ...spec, target })}
+        />
+      );
+
+    case "range":
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <IntField
+              id="low"
+              label="From"
+              value={spec.low}
+              min={lo}
+              max={spec.high}
+              disabled={locked}
+              onChange={(low) => onChange({ ...spec, low })}
+            />
+            <IntField
+              id="high"
+              label="To"
+              value={spec.high}
+              min={spec.low}
+              max={hi}
+              disabled={locked}
+              onChange={(high) => onChange({ ...spec, high })}
+            />
+          </div>
+          <Choice
+            label="Sum lands"
+            value={spec.outside ? "outside" : "between"}
+            options={[
+              { label: "Between (inclusive)", value: "between" },
+              { label: "Outside", value: "outside" },
+            ]}
+            disabled={disabled}
+            onChange={(v) => onChange({ ...spec, outside: v === "outside" })}
+          />
+        </>
+      );
+
+    case "bust":
+      return (
+        <IntField
+          id="target"
+          label={`Stand on (win with ${spec.target}–${BUST_LIMIT}, bust above ${BUST_LIMIT})`}
+          value={spec.target}
+          min={lo}
+          max={hi}
+          disabled={locked}
+          onChange={(target) => onChange({ ...spec, target })}
+        />
+      );
+
+    case "parity":
+      return (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Choice
+              label="Count"
+              value={spec.parity}
+              options={[
+                { label: "Even digits", value: "even" },
+                { label: "Odd digits", value: "odd" },
+              ]}
+              disabled={disabled}
+              onChange={(parity) => onChange({ ...spec, parity })}
+            />
+            <IntField
+              id="target"
+              label="Target Count"
+              value={spec.target}
+              min={0}
+              max={duration}
+              disabled={disabled}
+              onChange={(target) => onChange({ ...spec, target })}
+            />
+          </div>
+          {oneSided(spec)}
+        </>
+      );
+
+    case "digit":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Choice
+            label="Final digit"
+            value={spec.differs ? "differs" : "matches"}
+            options={[
+              { label: "Matches", value: "matches" },
+              { label: "Differs", value: "differs" },
+            ]}
+            disabled={disabled}
+            onChange={(v) => onChange({ ...spec, differs: v === "differs" })}
+          />
+          <IntField
+            id="digit"
+            label="Digit"
+            value={spec.digit}
+            min={0}
+            max={9}
+            disabled={disabled}
+            onChange={(digit) => onChange({ ...spec, digit })}
+          />
+        </div>
+      );
+  }
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ReferenceLine,
+} from "recharts";
+import type { BlackjackRules, StateValue, Strategy } from "@/lib/blackjack";
+
+const ev = (x: number | null) => (x === null ? "—" : x.toFixed(3));
+
+const describe = (s: StateValue) =>
+  `${s.cards} cards, total ${s.total}: stand ${ev(s.stand)}, hit ${ev(s.hit)}, ` +
+  `reached ${(s.reach * 100).toFixed(2)}% of games`;
+
+type StrategyCardProps = {
+  rules: BlackjackRules;
+  strategy: Strategy;
+  /** Win multiplier the values are worked out at. */
+  multiplier: number;
+  /** The hand in play, highlighted in the chart. */
+  current: StateValue | null;
+};
+
+/** Hit or stand in every state of the player's hand, and each move's expected return. */
+export function StrategyCard({ rules, strategy, multiplier, current }: StrategyCardProps) {
+  const [picked, setPicked] = useState<number | null>(null);
+  const cards = picked ?? current?.cards ?? rules.initialCards;
+  const totals = strategy.states[rules.initialCards].map((s) => s.total);
+  const counts = strategy.states.flatMap((row, n) => (row ? [n] : []));
+  const line = strategy.states[cards];
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">Optimal Strategy</h2>
+          <p className="text-sm text-gray-500">win pays {multiplier.toFixed(4)}×</p>
+        </div>
+
+        {/* Rows are cards drawn, columns the total; click a row to chart it */}
+        <div className="overflow-x-auto">
+          <table className="text-xs font-mono border-separate border-spacing-0.5">
+            <thead>
+              <tr className="text-gray-500">
+                <th />
+                {totals.map((t) => (
+                  <th key={t} className="font-medium w-5">
+                    {t}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map((n) => (
+                <tr
+                  key={n}
+                  onClick={() => setPicked(n)}
+                  className={`cursor-pointer ${n === cards ? "outline outline-1 outline-gray-400" : ""}`}
+                >
+                  <td className="pr-1 text-gray-500">{n}</td>
+                  {strategy.states[n].map((s) => (
+                    <td
+                      key={s.total}
+                      title={describe(s)}
+                      className={`text-center ${
+                        s.action === "hit" ? "bg-green-200" : "bg-gray-200"
+                      } ${
+                        current?.cards === n && current.total === s.total
+                          ? "ring-2 ring-blue-600"
+                          : ""
+                      } ${s.reach === 0 ? "opacity-40" : ""}`}
+                    >
+                      {s.action === "hit" ? "H" : "S"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Expected return per unit stake of each move at the chosen card count */}
+        <div className="h-48 w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={line} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="total" tick={{ fontSize: 10 }} />
+              <YAxis domain={[0, "auto"]} tickFormatter={(v: number) => v.toFixed(1)} width={40} />
+              <Tooltip
+                formatter={(v: number, name: string) => [v.toFixed(4), name]}
+                labelFormatter={(t) => `Total ${t} with ${cards} cards`}
+              />
+              <ReferenceLine y={1} stroke="#111827" strokeDasharray="4 4" />
+              {current?.cards === cards && (
+                <ReferenceLine x={current.total} stroke="#2563eb" />
+              )}
+              <Line
+                dataKey="stand"
+                name="Stand"
+                stroke="#6b7280"
+                dot={false}
+                isAnimationActive={false}
+              />
+              <Line
+                dataKey="hit"
+                name="Hit"
+                stroke="#16a34a"
+                dot={false}
+                connectNulls={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <p className="text-sm text-gray-600">
+          Values are the expected return per $1 staked with optimal play from then on; above the
+          dashed line the player is ahead. A hand of {rules.maxCards} cards must stand. Summed
+          over the deal, an optimal player gets back less than $1 by exactly the house edge.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
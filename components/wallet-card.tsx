@@ -0,0 +1,91 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import type { LedgerEntryType, Wallet } from "@/lib/wallet";
+
+const LEDGER_ROWS = 8; // most recent entries shown under the balance
+
+const ENTRY_LABEL: Record<LedgerEntryType, string> = {
+  stake: "Stake",
+  payout: "Payout",
+  refund: "Refund",
+  sale: "Sale",
+  topup: "Top-up",
+  reset: "Reset",
+};
+
+const money = (x: number) => `${x < 0 ? "-" : ""}$${Math.abs(x).toFixed(2)}`;
+
+type WalletCardProps = {
+  wallet: Wallet | null;
+  error: string | null;
+  disabled?: boolean;
+  onTopUp: (amount: number) => void;
+  onReset: () => void;
+};
+
+export function WalletCard({ wallet, error, disabled, onTopUp, onReset }: WalletCardProps) {
+  const [amount, setAmount] = useState(100);
+  const recent = wallet?.ledger.slice(-LEDGER_ROWS).reverse() ?? [];
+
+  return (
+    <Card className="w-full shadow-lg border border-gray-200">
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">Demo Wallet</h2>
+          <p className="text-2xl font-mono">{wallet ? money(wallet.balance) : "--"}</p>
+        </div>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="topup">Top up (USD)</Label>
+            <Input
+              id="topup"
+              type="number"
+              min={1}
+              step={1}
+              value={amount}
+              onChange={(e) => setAmount(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+          <Button disabled={disabled} onClick={() => onTopUp(amount)}>
+            Top up
+          </Button>
+          <Button variant="outline" disabled={disabled} onClick={onReset}>
+            Reset
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        {recent.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium">#</th>
+                <th className="font-medium">Entry</th>
+                <th className="font-medium text-right">Amount</th>
+                <th className="font-medium text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {recent.map((e) => (
+                <tr key={e.seq}>
+                  <td>{e.seq}</td>
+                  <td className="font-sans">{ENTRY_LABEL[e.type]}</td>
+                  <td className={`text-right ${e.amount < 0 ? "text-red-600" : "text-green-600"}`}>
+                    {money(e.amount)}
+                  </td>
+                  <td className="text-right">{money(e.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { BlackjackGame, BlackjackOrder, GamePhase } from "@/lib/blackjack";
+
+const PHASE_RANK: Record<GamePhase, number> = {
+  dealing: 0,
+  player: 1,
+  hitting: 2,
+  dealer: 3,
+  settled: 4,
+};
+
+// Replies and stream events can cross, so never step a game backwards
+const progress = (g: BlackjackGame) =>
+  g.phase === "settled" ? Infinity : g.ticks.length * 5 + PHASE_RANK[g.phase];
+
+/**
+ * Play one blackjack game at a time on the server engine, following it over
+ * its event stream until it settles. A game left open, e.g. by a reload, is
+ * picked up again.
+ */
+export const useBlackjack = () => {
+  const [game, setGame] = useState<BlackjackGame | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const put = useCallback((g: BlackjackGame) => {
+    setGame((prev) => (prev?.id === g.id && progress(prev) > progress(g) ? prev : g));
+  }, []);
+
+  useEffect(() => {
+    apiFetch<BlackjackGame[]>("/api/blackjack").then(
+      (open) => open.length > 0 && setGame((g) => g ?? open[open.length - 1]),
+      (e: Error) => setError(e.message),
+    );
+  }, []);
+
+  const gameId = game?.id;
+  const live = game !== null && game.phase !== "settled";
+  useEffect(() => {
+    if (!gameId || !live) return;
+    const es = new EventSource(`/api/blackjack/${gameId}/events`);
+    es.onmessage = (ev) => put(JSON.parse(ev.data));
+    return () => es.close();
+  }, [gameId, live, put]);
+
+  const run = useCallback(
+    async (path: string, body: unknown = {}) => {
+      setError(null);
+      try {
+        put(await apiFetch<BlackjackGame>(path, body));
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    },
+    [put],
+  );
+
+  const deal = useCallback((order: BlackjackOrder) => run("/api/blackjack", order), [run]);
+  const hit = useCallback(() => gameId && run(`/api/blackjack/${gameId}/hit`), [run, gameId]);
+  const stand = useCallback(() => gameId && run(`/api/blackjack/${gameId}/stand`), [run, gameId]);
+
+  return { game, error, deal, hit, stand } as const;
+};
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { AppConfig } from "@/lib/config";
+
+/**
+ * The operator config: markets on offer and the pricing policy, so the page
+ * only offers what the server will accept. `save` replaces it (admin only).
+ */
+export const useConfig = () => {
+  const [config, setConfig] = useState<AppConfig | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    apiFetch<AppConfig>("/api/config").then(setConfig, (e: Error) => setError(e.message));
+  }, []);
+
+  /** Store `next`, sending `token` if the server requires one; resolves to whether it saved. */
+  const save = useCallback(async (next: AppConfig, token?: string) => {
+    setError(null);
+    try {
+      const headers = token ? { Authorization: `Bearer ${token}` } : undefined;
+      setConfig(await apiFetch<AppConfig>("/api/config", next, headers));
+      return true;
+    } catch (e) {
+      setError((e as Error).message);
+      return false;
+    }
+  }, []);
+
+  return { config, error, save } as const;
+};
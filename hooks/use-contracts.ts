@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import { isSettled, type Contract, type ContractOrder } from "@/lib/contracts";
+
+// Responses and stream events can cross, so never step a contract backwards
+const progress = (c: Contract) =>
+  isSettled(c) ? Infinity : c.status === "open" ? 1 + c.digits.length : 0;
+
+// A settled contract never changes again; keeping the first copy keeps it
+// the same object, so effects keyed on it run once per settlement
+const isNewer = (prev: Contract | undefined, c: Contract) =>
+  !prev || (!isSettled(prev) && progress(c) >= progress(prev));
+
+/**
+ * Buy contracts through the server engine and follow all of them over one
+ * portfolio event stream. The page never settles anything itself.
+ *
+ * `contracts` holds every contract open on the server plus those settled
+ * while the page was open, newest first.
+ */
+export const useContracts = () => {
+  const [byId, setById] = useState<Map<string, Contract>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+  const current = useRef(byId);
+  current.current = byId;
+
+  const put = useCallback((c: Contract) => {
+    setById((m) => {
+      return isNewer(m.get(c.id), c) ? new Map(m).set(c.id, c) : m;
+    });
+  }, []);
+
+  useEffect(() => {
+    const es = new EventSource("/api/contracts/events");
+
+    // Sent on every (re)connect: contracts we still hold as open but the
+    // server no longer does settled while we were away, so fetch them
+    es.addEventListener("snapshot", (ev) => {
+      const open: Contract[] = JSON.parse((ev as MessageEvent).data);
+      const ids = new Set(open.map((c) => c.id));
+      current.current.forEach((c) => {
+        if (!isSettled(c) && !ids.has(c.id))
+          apiFetch<Contract>(`/api/contracts/${c.id}`).then(put, () => {});
+      });
+      open.forEach(put);
+    });
+    es.onmessage = (ev) => put(JSON.parse(ev.data));
+
+    return () => es.close();
+  }, [put]);
+
+  const buy = useCallback(
+    async (order: ContractOrder) => {
+      setError(null);
+      try {
+        put(await apiFetch<Contract>("/api/contracts", order));
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    },
+    [put],
+  );
+
+  /** Sell contract `id` back, provided it still fetches `price`. */
+  const sell = useCallback(
+    async (id: string, price: number) => {
+      setError(null);
+      try {
+        put(await apiFetch<Contract>(`/api/contracts/${id}/sell`, { price }));
+      } catch (e) {
+        setError((e as Error).message);
+      }
+    },
+    [put],
+  );
+
+  const contracts = [...byId.values()].sort((a, b) => b.createdAt - a.createdAt);
+  return { contracts, error, buy, sell } as const;
+};
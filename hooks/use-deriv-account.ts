@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createDerivClient,
+  type DerivAccount,
+  type DerivBalance,
+  type DerivClient,
+} from "@/lib/deriv";
+
+const TOKEN_KEY = "deriv-token"; // per tab, so closing it signs out
+
+export type DerivSession = { client: DerivClient; account: DerivAccount };
+
+/**
+ * Optional sign-in to a real Deriv account with an API token, pasted or
+ * handed back by the OAuth redirect. Keeps the balance live while signed in.
+ */
+export const useDerivAccount = () => {
+  const [session, setSession] = useState<DerivSession | null>(null);
+  const [balance, setBalance] = useState<DerivBalance | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const current = useRef<DerivClient | null>(null);
+
+  const logout = useCallback(() => {
+    sessionStorage.removeItem(TOKEN_KEY);
+    current.current?.close();
+    current.current = null;
+    setSession(null);
+    setBalance(null);
+  }, []);
+
+  const login = useCallback(
+    async (token: string) => {
+      logout();
+      setError(null);
+      setPending(true);
+      const client = createDerivClient();
+      current.current = client;
+      try {
+        const { authorize } = await client.request({ authorize: token.trim() });
+        if (current.current !== client) return; // superseded by another login
+        const account = authorize as DerivAccount;
+        sessionStorage.setItem(TOKEN_KEY, token.trim());
+        client.onClose(() => {
+          if (current.current !== client) return;
+          current.current = null;
+          setSession(null);
+          setError("Disconnected from Deriv; log in again");
+        });
+        setSession({ client, account });
+        setBalance({ balance: account.balance, currency: account.currency, loginid: account.loginid });
+      } catch (e) {
+        client.close();
+        if (current.current !== client) return;
+        current.current = null;
+        sessionStorage.removeItem(TOKEN_KEY);
+        setError((e as Error).message);
+      } finally {
+        setPending(false);
+      }
+    },
+    [logout],
+  );
+
+  // On load: a token from the OAuth redirect (?token1=…), else this tab's last login
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("token1") ?? sessionStorage.getItem(TOKEN_KEY);
+    if (params.has("token1")) window.history.replaceState(null, "", window.location.pathname);
+    if (token) login(token);
+    return () => {
+      current.current?.close();
+      current.current = null;
+    };
+  }, [login]);
+
+  useEffect(() => {
+    if (!session) return;
+    return session.client.subscribe(
+      { balance: 1 },
+      (msg) => setBalance(msg.balance as DerivBalance),
+      (e) => setError(e.message),
+    );
+  }, [session]);
+
+  return { session, balance, pending, error, login, logout } as const;
+};
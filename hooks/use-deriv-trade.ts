@@ -0,0 +1,96 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  proposalRequest,
+  type DerivBet,
+  type DerivOpenContract,
+  type DerivProposal,
+  type DerivPurchase,
+} from "@/lib/deriv";
+import type { DerivSession } from "@/hooks/use-deriv-account";
+
+/**
+ * Deriv's live `proposal` for `bet` on `symbol` at `stake`, buying it, and
+ * following the contracts bought this session through
+ * `proposal_open_contract` until Deriv settles them.
+ */
+export const useDerivTrade = (
+  session: DerivSession | null,
+  bet: DerivBet | null,
+  symbol: string,
+  stake: number,
+) => {
+  const [proposal, setProposal] = useState<DerivProposal | null>(null);
+  const [contracts, setContracts] = useState<Map<number, DerivOpenContract>>(new Map());
+  const [buying, setBuying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped after a purchase: Deriv ends a proposal stream once it is bought
+  const [round, setRound] = useState(0);
+  const watches = useRef(new Map<number, () => void>());
+
+  const client = session?.client;
+  const currency = session?.account.currency;
+  const request = useMemo(
+    () => (bet && currency && stake > 0 ? proposalRequest(bet, symbol, stake, currency) : null),
+    [bet, symbol, stake, currency],
+  );
+
+  useEffect(() => {
+    setProposal(null);
+    if (!client || !request) return;
+    setError(null);
+    return client.subscribe(
+      request,
+      (msg) => setProposal(msg.proposal as DerivProposal),
+      (e) => setError(e.message),
+    );
+  }, [client, request, round]);
+
+  // Contracts are followed per connection; signing out stops following them
+  useEffect(() => {
+    const open = watches.current;
+    return () => {
+      open.forEach((forget) => forget());
+      open.clear();
+      setContracts(new Map());
+    };
+  }, [client]);
+
+  const follow = useCallback(
+    (contractId: number) => {
+      if (!client) return;
+      const forget = client.subscribe(
+        { proposal_open_contract: 1, contract_id: contractId },
+        (msg) => {
+          const c = msg.proposal_open_contract as DerivOpenContract;
+          setContracts((m) => new Map(m).set(contractId, c));
+          if (c.is_sold) {
+            watches.current.get(contractId)?.();
+            watches.current.delete(contractId);
+          }
+        },
+        (e) => setError(e.message),
+      );
+      watches.current.set(contractId, forget);
+    },
+    [client],
+  );
+
+  /** Buy the current proposal at no more than its quoted price. */
+  const buy = useCallback(async () => {
+    if (!client || !proposal) return;
+    setError(null);
+    setBuying(true);
+    try {
+      const { buy } = await client.request({ buy: proposal.id, price: proposal.ask_price });
+      follow((buy as DerivPurchase).contract_id);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBuying(false);
+      setRound((r) => r + 1);
+    }
+  }, [client, proposal, follow]);
+
+  const list = [...contracts.values()].sort((a, b) => b.contract_id - a.contract_id);
+  return { proposal, contracts: list, buying, error, buy } as const;
+};
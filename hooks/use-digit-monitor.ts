@@ -0,0 +1,36 @@
+import { useCallback, useEffect, useState } from "react";
+import { lastDigit } from "@/lib/markets";
+import { getFeed, type FeedKind, type Tick } from "@/lib/feeds";
+
+const MAX_SAMPLES = 20_000; // rolling window per market
+
+// Samples outlive the component, so switching markets back and forth keeps them
+const samples = new Map<string, number[]>();
+
+/** Last digits observed on `symbol` this session, newest last. */
+export const useDigitMonitor = (kind: FeedKind, symbol: string) => {
+  const key = `${kind}:${symbol}`;
+  const [digits, setDigits] = useState<number[]>(() => samples.get(key) ?? []);
+
+  useEffect(() => {
+    const feed = getFeed(kind);
+    setDigits(samples.get(key) ?? []);
+
+    const onTick = (tick: Tick) => {
+      const next = [...(samples.get(key) ?? []), lastDigit(tick.quote, tick.pipSize)];
+      if (next.length > MAX_SAMPLES) next.shift();
+      samples.set(key, next);
+      setDigits(next);
+    };
+
+    feed.subscribe(symbol, onTick);
+    return () => feed.unsubscribe(symbol, onTick);
+  }, [kind, symbol, key]);
+
+  const reset = useCallback(() => {
+    samples.delete(key);
+    setDigits([]);
+  }, [key]);
+
+  return { digits, reset } as const;
+};
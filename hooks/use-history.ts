@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { Contract } from "@/lib/contracts";
+import { filterToParams, type HistoryFilter } from "@/lib/history";
+
+/** Stored contracts matching `filter`, re-fetched whenever `version` changes. */
+export const useHistory = (filter: HistoryFilter, version: unknown) => {
+  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const query = filterToParams(filter).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+    apiFetch<Contract[]>(`/api/contracts?${query}`)
+      .then((list) => {
+        if (cancelled) return;
+        setContracts(list);
+        setError(null);
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [query, version]);
+
+  return { contracts, error } as const;
+};
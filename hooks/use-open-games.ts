@@ -0,0 +1,22 @@
+import { useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { BlackjackGame } from "@/lib/blackjack";
+
+const POLL_MS = 2000;
+
+/**
+ * Blackjack games still being played on the server, by anyone. Games have
+ * no portfolio stream like contracts do, so the list is polled.
+ */
+export const useOpenGames = () => {
+  const [games, setGames] = useState<BlackjackGame[]>([]);
+
+  useEffect(() => {
+    const load = () => apiFetch<BlackjackGame[]>("/api/blackjack").then(setGames, () => {});
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return { games } as const;
+};
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import {
+  importPublicKey,
+  keyFingerprint,
+  parseReceipts,
+  verifyChain,
+  verifyReceipt,
+  type Receipt,
+  type ReceiptCheck,
+} from "@/lib/receipts";
+
+export type ReceiptResult = { receipt: Receipt; checks: ReceiptCheck[] };
+
+export type Verification = {
+  results: ReceiptResult[];
+  /** Links between consecutive receipts, when several are checked. */
+  chain: ReceiptCheck[];
+};
+
+type ReceiptChain = { publicKey: JsonWebKey; receipts: Receipt[] };
+
+/**
+ * Checks pasted receipts in the browser against the app's public signing
+ * key; the server only hands out the key and the receipts themselves.
+ */
+export const useReceiptVerifier = () => {
+  const [publicKey, setPublicKey] = useState<JsonWebKey | null>(null);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [verification, setVerification] = useState<Verification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChain = useCallback(async (): Promise<Receipt[]> => {
+    const chain = await apiFetch<ReceiptChain>("/api/receipts");
+    setPublicKey(chain.publicKey);
+    setFingerprint(await keyFingerprint(chain.publicKey));
+    return chain.receipts;
+  }, []);
+
+  useEffect(() => {
+    loadChain().catch((e: Error) => setError(e.message));
+  }, [loadChain]);
+
+  const loadReceipt = useCallback(
+    (contractId: string) =>
+      apiFetch<Receipt>(`/api/contracts/${encodeURIComponent(contractId)}/receipt`),
+    [],
+  );
+
+  /** Check `text`: one receipt or a JSON array of them. */
+  const verify = useCallback(
+    async (text: string) => {
+      setError(null);
+      setVerification(null);
+      if (!publicKey) return setError("The app's signing key has not loaded yet");
+      let receipts: Receipt[];
+      try {
+        receipts = parseReceipts(JSON.parse(text));
+      } catch (e) {
+        return setError(e instanceof SyntaxError ? "Not valid JSON" : (e as Error).message);
+      }
+      try {
+        const key = await importPublicKey(publicKey);
+        const results = await Promise.all(
+          receipts.map(async (receipt) => ({ receipt, checks: await verifyReceipt(receipt, key) })),
+        );
+        const ordered = [...receipts].sort((a, b) => a.body.seq - b.body.seq);
+        setVerification({ results, chain: verifyChain(ordered) });
+      } catch (e) {
+        setError(`Could not check the receipt: ${(e as Error).message}`);
+      }
+    },
+    [publicKey],
+  );
+
+  return { fingerprint, verification, error, setError, verify, loadChain, loadReceipt } as const;
+};
@@ -0,0 +1,20 @@
+import { useCallback, useEffect, useState } from "react";
+import { getReplayFeed } from "@/lib/feeds";
+import { loadTicks, type RecordedSession } from "@/lib/recorder";
+
+/** Playback position and controls of the shared replay feed. */
+export const useReplay = () => {
+  const [progress, setProgress] = useState(() => getReplayFeed().progress());
+  const [session, setSession] = useState<RecordedSession | null>(null);
+
+  useEffect(() => getReplayFeed().onProgress(setProgress), []);
+
+  const play = useCallback(async (s: RecordedSession) => {
+    getReplayFeed().load(await loadTicks(s.id));
+    setSession(s);
+  }, []);
+
+  const setSpeed = useCallback((speed: number) => getReplayFeed().setSpeed(speed), []);
+
+  return { session, progress, play, setSpeed } as const;
+};
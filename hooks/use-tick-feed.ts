@@ -0,0 +1,41 @@
+import { useEffect, useState } from "react";
+import { defaultPipSize } from "@/lib/markets";
+import {
+  getFeed,
+  type FeedKind,
+  type FeedStatus,
+  type Tick,
+} from "@/lib/feeds";
+
+/**
+ * Latest tick, quote, pip size and feed status for `symbol` on the chosen
+ * feed. Every tick is a new `tick`, even when its quote repeats the last.
+ */
+export const useTickFeed = (kind: FeedKind, symbol: string) => {
+  const [tick, setTick] = useState<Tick | null>(null);
+  const [pipSize, setPipSize] = useState(() => defaultPipSize(symbol));
+  const [status, setStatus] = useState<FeedStatus>("connecting");
+
+  useEffect(() => {
+    const feed = getFeed(kind);
+    setTick(null);
+    setPipSize(feed.pipSize(symbol));
+
+    const onTick = (t: Tick) => {
+      setPipSize(t.pipSize);
+      setTick(t);
+    };
+
+    const offStatus = feed.onStatus(setStatus);
+    feed.subscribe(symbol, onTick);
+    setStatus(feed.status());
+
+    return () => {
+      feed.unsubscribe(symbol, onTick);
+      offStatus();
+    };
+  }, [kind, symbol]);
+
+  const quote = tick?.quote ?? null;
+  return { tick, quote, pipSize, status, connected: status === "open" } as const;
+};
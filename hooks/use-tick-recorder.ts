@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react";
+import { getFeed, type FeedKind, type Tick } from "@/lib/feeds";
+import {
+  appendTick,
+  createSession,
+  deleteSession,
+  listSessions,
+  parseTicks,
+  type RecordedSession,
+} from "@/lib/recorder";
+
+/**
+ * Records every tick of `symbol` on a live feed into IndexedDB while
+ * `enabled`, one session per subscription, and lists the saved sessions.
+ */
+export const useTickRecorder = (kind: FeedKind, symbol: string, enabled: boolean) => {
+  const [sessions, setSessions] = useState<RecordedSession[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!enabled || kind === "replay") return;
+    const feed = getFeed(kind);
+    let session: RecordedSession | null = null;
+    // Writes are chained so the session exists before its second tick lands
+    let writes = Promise.resolve();
+
+    const onTick = (tick: Tick) => {
+      writes = writes
+        .then(async () => {
+          if (session) await appendTick(session, tick);
+          else session = await createSession(kind, symbol, [tick]);
+          const current = { ...session };
+          setSessions((ss) => [current, ...ss.filter((s) => s.id !== current.id)]);
+        })
+        .catch((e) => setError((e as Error).message));
+    };
+
+    feed.subscribe(symbol, onTick);
+    return () => feed.unsubscribe(symbol, onTick);
+  }, [kind, symbol, enabled]);
+
+  const remove = useCallback(
+    async (id: number) => {
+      setError(null);
+      try {
+        await deleteSession(id);
+        await refresh();
+      } catch (e) {
+        setError(`Could not delete the session: ${(e as Error).message}`);
+      }
+    },
+    [refresh],
+  );
+
+  const importFile = useCallback(
+    async (file: File) => {
+      setError(null);
+      try {
+        const ticks = parseTicks(JSON.parse(await file.text()));
+        await createSession("file", ticks[0].symbol, ticks);
+        await refresh();
+      } catch (e) {
+        setError(`Could not import ${file.name}: ${(e as Error).message}`);
+      }
+    },
+    [refresh],
+  );
+
+  /** Show an error from elsewhere in the recordings flow, e.g. a failed replay. */
+  const reportError = useCallback((message: string) => setError(message), []);
+
+  return { sessions, error, remove, importFile, reportError } as const;
+};
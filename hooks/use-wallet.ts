@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from "react";
+import { apiFetch } from "@/lib/api";
+import type { BlackjackGame } from "@/lib/blackjack";
+import type { Wallet } from "@/lib/wallet";
+
+/**
+ * Demo wallet held by the server. Re-fetched whenever `version` changes,
+ * e.g. when a contract is bought or settles, along with whether a
+ * blackjack game is still being played on it.
+ */
+export const useWallet = (version: unknown) => {
+  const [wallet, setWallet] = useState<Wallet | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [gameOpen, setGameOpen] = useState(false);
+
+  const run = useCallback(async (path: string, body?: unknown) => {
+    setError(null);
+    try {
+      setWallet(await apiFetch<Wallet>(path, body));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    run("/api/wallet");
+    apiFetch<BlackjackGame[]>("/api/blackjack").then(
+      (open) => setGameOpen(open.length > 0),
+      () => {},
+    );
+  }, [run, version]);
+
+  const topUp = useCallback(
+    (amount: number) => run("/api/wallet/topup", { amount }),
+    [run],
+  );
+  const reset = useCallback(() => run("/api/wallet/reset", {}), [run]);
+
+  return { wallet, error, gameOpen, topUp, reset } as const;
+};
@@ -0,0 +1,109 @@
+import type { Contract } from "@/lib/contracts";
+
+// ==========================================================
+// Realised vs theoretical performance of settled contracts
+// ==========================================================
+// Everything is from the player's side: positive P&L means the house lost.
+
+export type PnlPoint = {
+  n: number;
+  settledAt: number;
+  pnl: number;
+  /** Running realised P&L. */
+  cumulative: number;
+  /** Running P&L the model expected, i.e. the sum of per-bet EVs. */
+  expected: number;
+};
+
+export type CalibrationBucket = {
+  /** Quoted win-probability range [lo, hi). */
+  lo: number;
+  hi: number;
+  bets: number;
+  wins: number;
+  /** Mean quoted probability vs observed hit rate. */
+  quoted: number;
+  realised: number;
+  /** (wins - expected wins) / sd; |z| > 2 is worth a look. */
+  z: number;
+};
+
+export type SessionStats = {
+  bets: number;
+  wins: number;
+  staked: number;
+  pnl: number;
+  expectedPnl: number;
+  /** Mean EV per unit staked; -margin for an unbounded, unrounded quote. */
+  evPerStake: number;
+  series: PnlPoint[];
+  buckets: CalibrationBucket[];
+};
+
+const BUCKETS = 10;
+
+/** Player P&L of one settled bet. */
+export const betPnl = (c: Contract): number =>
+  c.status === "won"
+    ? c.payout - c.stake
+    : c.status === "lost"
+      ? -c.stake
+      : c.status === "sold"
+        ? (c.soldFor ?? 0) - c.stake
+        : 0;
+
+/** Expected player P&L of a bet at the terms it was quoted. */
+export const betEv = (c: Contract): number => c.probability * c.payout - c.stake;
+
+/**
+ * Aggregate won, lost and sold contracts; voided and running ones are
+ * ignored. Sold contracts count towards P&L but, never having reached an
+ * outcome, not towards calibration.
+ */
+export const sessionStats = (contracts: Contract[]): SessionStats => {
+  const settled = contracts
+    .filter((c) => c.status === "won" || c.status === "lost" || c.status === "sold")
+    .sort((a, b) => (a.settledAt ?? 0) - (b.settledAt ?? 0));
+  const resolved = settled.filter((c) => c.status !== "sold");
+
+  let cumulative = 0;
+  let expected = 0;
+  const series = settled.map((c, i) => {
+    const pnl = betPnl(c);
+    cumulative += pnl;
+    expected += betEv(c);
+    return { n: i + 1, settledAt: c.settledAt ?? c.createdAt, pnl, cumulative, expected };
+  });
+
+  const buckets: CalibrationBucket[] = Array.from({ length: BUCKETS }, (_, i) => {
+    const lo = i / BUCKETS;
+    const hi = (i + 1) / BUCKETS;
+    const inBucket = resolved.filter(
+      (c) => c.probability >= lo && (c.probability < hi || (i === BUCKETS - 1 && c.probability <= hi)),
+    );
+    const wins = inBucket.filter((c) => c.status === "won").length;
+    const expWins = inBucket.reduce((a, c) => a + c.probability, 0);
+    const variance = inBucket.reduce((a, c) => a + c.probability * (1 - c.probability), 0);
+    return {
+      lo,
+      hi,
+      bets: inBucket.length,
+      wins,
+      quoted: inBucket.length ? expWins / inBucket.length : 0,
+      realised: inBucket.length ? wins / inBucket.length : 0,
+      z: variance > 0 ? (wins - expWins) / Math.sqrt(variance) : 0,
+    };
+  });
+
+  const staked = settled.reduce((a, c) => a + c.stake, 0);
+  return {
+    bets: settled.length,
+    wins: settled.filter((c) => c.status === "won").length,
+    staked,
+    pnl: cumulative,
+    expectedPnl: expected,
+    evPerStake: staked > 0 ? expected / staked : 0,
+    series,
+    buckets,
+  };
+};
@@ -0,0 +1,25 @@
+// Browser-side helper for the app's own JSON route handlers.
+
+/**
+ * Fetch `path`, parse JSON, and throw the server's `error` message on failure.
+ * A `body` makes it a JSON POST; `headers` are sent as well, e.g. credentials.
+ */
+export const apiFetch = async <T>(
+  path: string,
+  body?: unknown,
+  headers?: Record<string, string>,
+): Promise<T> => {
+  let res: Response;
+  try {
+    res = await fetch(path, {
+      method: body === undefined ? "GET" : "POST",
+      headers: body === undefined ? headers : { "Content-Type": "application/json", ...headers },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new Error("Could not reach the server");
+  }
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error ?? `Request failed (${res.status})`);
+  return data as T;
+};
@@ -0,0 +1,151 @@
+import { isWin } from "@/lib/contracts";
+import { lastDigit } from "@/lib/markets";
+import { payoutFor, prob, type Direction } from "@/lib/pricing";
+import type { Tick } from "@/lib/feeds/types";
+
+// ==========================================================
+// Backtester: replay a tick stream through the contract rules
+// ==========================================================
+// For each configuration a bettor stakes 1 on back-to-back contracts: the
+// tick at position i is the entry spot, ticks i+1..i+k settle it, and the
+// next contract enters on the tick after that. Results are reported from
+// the house's side and compared with the analytical `prob`.
+
+export type BacktestGrid = {
+  durations: number[];
+  /** Targets to sweep; `null` sweeps every target 0..9k for each duration. */
+  targets: number[] | null;
+  directions: Direction[];
+  allowEqual: boolean[];
+  margins: number[];
+};
+
+export type BacktestResult = {
+  duration: number;
+  target: number;
+  direction: Direction;
+  allowEqual: boolean;
+  margin: number;
+  bets: number;
+  wins: number;
+  hitRate: number;
+  /** Analytical win probability and the z-score of the observed wins. */
+  p: number;
+  z: number;
+  payout: number;
+  housePnl: number;
+  expectedHousePnl: number;
+  /** Variance of the house P&L of a single bet. */
+  variance: number;
+  /** Largest peak-to-trough fall of cumulative house P&L. */
+  maxDrawdown: number;
+};
+
+/** Sums of back-to-back k-digit settlement windows, each after an entry tick. */
+const windowSums = (digits: number[], k: number): number[] => {
+  const sums: number[] = [];
+  for (let entry = 0; entry + k < digits.length; entry += k + 1) {
+    let sum = 0;
+    for (let j = 1; j <= k; j++) sum += digits[entry + j];
+    sums.push(sum);
+  }
+  return sums;
+};
+
+export const ticksToDigits = (ticks: Pick<Tick, "quote" | "pipSize">[]): number[] =>
+  ticks.map((t) => lastDigit(t.quote, t.pipSize));
+
+/** Number of configurations `grid` expands to. */
+export const gridSize = (grid: BacktestGrid): number =>
+  grid.durations.reduce(
+    (acc, k) => acc + (grid.targets?.filter((t) => t <= 9 * k).length ?? 9 * k + 1),
+    0,
+  ) *
+  grid.directions.length *
+  grid.allowEqual.length *
+  grid.margins.length;
+
+export const runBacktest = (digits: number[], grid: BacktestGrid): BacktestResult[] => {
+  const results: BacktestResult[] = [];
+
+  for (const duration of grid.durations) {
+    const sums = windowSums(digits, duration);
+    if (sums.length === 0) continue;
+    const targets =
+      grid.targets?.filter((t) => t >= 0 && t <= 9 * duration) ??
+      Array.from({ length: 9 * duration + 1 }, (_, t) => t);
+
+    for (const target of targets)
+      for (const direction of grid.directions)
+        for (const allowEqual of grid.allowEqual) {
+          const p = prob(duration, target, direction, allowEqual);
+          if (p <= 0) continue;
+          const terms = { direction, allowEqual, target };
+          const wins = sums.filter((s) => isWin(terms, s)).length;
+
+          for (const margin of grid.margins) {
+            const payout = payoutFor(1, p, margin);
+            let pnl = 0;
+            let peak = 0;
+            let maxDrawdown = 0;
+            for (const s of sums) {
+              pnl += isWin(terms, s) ? 1 - payout : 1;
+              peak = Math.max(peak, pnl);
+              maxDrawdown = Math.max(maxDrawdown, peak - pnl);
+            }
+            const bets = sums.length;
+            results.push({
+              duration,
+              target,
+              direction,
+              allowEqual,
+              margin,
+              bets,
+              wins,
+              hitRate: wins / bets,
+              p,
+              z: p < 1 ? (wins - bets * p) / Math.sqrt(bets * p * (1 - p)) : 0,
+              payout,
+              housePnl: pnl,
+              expectedHousePnl: bets * (1 - p * payout),
+              variance: p * (1 - p) * payout ** 2, // house gains 1 or 1 - payout
+              maxDrawdown,
+            });
+          }
+        }
+  }
+  return results;
+};
+
+/** Parse "1-5,8,10" into [1, 2, 3, 4, 5, 8, 10]. */
+export const parseIntList = (spec: string): number[] => {
+  const out = new Set<number>();
+  for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+    const [lo, hi = lo] = part.split("-").map((x) => parseInt(x, 10));
+    if (Number.isNaN(lo) || Number.isNaN(hi) || hi < lo)
+      throw new RangeError(`Bad range: ${part}`);
+    for (let i = lo; i <= hi; i++) out.add(i);
+  }
+  return [...out].sort((a, b) => a - b);
+};
+
+/** Parse "0.02,0.05" (or percentages "2%,5%") into margins. */
+export const parseMargins = (spec: string): number[] =>
+  spec
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => (p.endsWith("%") ? parseFloat(p) / 100 : parseFloat(p)))
+    .map((m) => {
+      if (!(m >= 0 && m < 1)) throw new RangeError(`Bad margin: ${m}`);
+      return m;
+    });
+
+const CSV_COLUMNS: (keyof BacktestResult)[] = [
+  "duration", "target", "direction", "allowEqual", "margin", "bets", "wins",
+  "hitRate", "p", "z", "payout", "housePnl", "expectedHousePnl", "variance", "maxDrawdown",
+];
+
+export const resultsToCsv = (results: BacktestResult[]): string =>
+  [CSV_COLUMNS.join(","), ...results.map((r) => CSV_COLUMNS.map((c) => r[c]).join(","))].join("\n") +
+  "\n";
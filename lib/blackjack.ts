@@ -0,0 +1,245 @@
+import { BUST_LIMIT } from "@/lib/contract-types";
+import type { LiveFeedKind, Tick } from "@/lib/feeds";
+import { P_k_n, pmf } from "@/lib/pricing";
+
+// ==========================================================
+// Hit-or-stand blackjack on tick digits: rules & exact odds
+// ==========================================================
+// Every tick's last digit is a card worth 0–9. The player is dealt the
+// first cards, then takes one more card per Hit until they Stand or bust.
+// A hand holds at most `maxCards` cards, after which the player stands, so
+// every game ends within a bounded number of ticks. The dealer then draws
+// from the following ticks until reaching a fixed total. The dealer's hand
+// has no card limit and a zero leaves its total unchanged, so for the
+// dealer every draw is effectively uniform on 1–9.
+
+export type BlackjackRules = {
+  /** Totals above this bust. */
+  bustLimit: number;
+  /** The dealer draws until reaching at least this total. */
+  dealerStandsOn: number;
+  /** Cards dealt to the player before the first decision. */
+  initialCards: number;
+  /** The player stands automatically once holding this many cards. */
+  maxCards: number;
+};
+
+export const BLACKJACK_RULES: BlackjackRules = {
+  bustLimit: BUST_LIMIT,
+  dealerStandsOn: 17,
+  initialCards: 2,
+  maxCards: 8,
+};
+
+export type HandOutcome = "won" | "lost" | "push";
+
+export const handTotal = (cards: number[]): number => cards.reduce((a, c) => a + c, 0);
+
+/** Result of a finished hand: a player bust loses even if the dealer would bust too. */
+export const settleHand = (
+  rules: BlackjackRules,
+  player: number[],
+  dealer: number[],
+): HandOutcome => {
+  const p = handTotal(player);
+  const d = handTotal(dealer);
+  if (p > rules.bustLimit) return "lost";
+  if (d > rules.bustLimit || p > d) return "won";
+  return p === d ? "push" : "lost";
+};
+
+// ---- games ---- //
+
+/**
+ * `dealing`: the opening cards are being drawn. `player`: waiting for Hit or
+ * Stand. `hitting`: the next tick is the player's card. `dealer`: the
+ * dealer is drawing.
+ */
+export type GamePhase = "dealing" | "player" | "hitting" | "dealer" | "settled";
+
+export type BlackjackOrder = {
+  symbol: string;
+  feed: LiveFeedKind;
+  stake: number;
+};
+
+export type BlackjackGame = BlackjackOrder & {
+  id: string;
+  rules: BlackjackRules;
+  /** Paid back on a win, stake included. */
+  payout: number;
+  phase: GamePhase;
+  player: number[];
+  dealer: number[];
+  /** Every tick a card was drawn from, in order. */
+  ticks: Tick[];
+  result: HandOutcome | "void" | null;
+  voidReason: string | null;
+  createdAt: number;
+  settledAt: number | null;
+};
+
+// ---- odds under optimal play ---- //
+
+/** The dealer's final total: `totals[t]` = P(ending on t), plus P(bust). */
+export type DealerOdds = { totals: number[]; bust: number };
+
+export const dealerOdds = (rules: BlackjackRules): DealerOdds => {
+  const { bustLimit, dealerStandsOn } = rules;
+  const reach = new Array<number>(bustLimit + 10).fill(0);
+  reach[0] = 1;
+  for (let t = 0; t < dealerStandsOn; t++)
+    for (let card = 1; card <= 9; card++) reach[t + card] += reach[t] / 9;
+  const totals = reach.map((p, t) => (t >= dealerStandsOn && t <= bustLimit ? p : 0));
+  const bust = reach.reduce((a, p, t) => (t > bustLimit ? a + p : a), 0);
+  return { totals: totals.slice(0, bustLimit + 1), bust };
+};
+
+export type Action = "hit" | "stand";
+
+export type HandOdds = { win: number; push: number; lose: number };
+
+/** The best action in one state of the player's hand, and what it is worth. */
+export type StateValue = HandOdds & {
+  total: number;
+  /** Cards drawn so far. */
+  cards: number;
+  action: Action;
+  /** Expected return per unit stake when standing / hitting, then playing on optimally. */
+  stand: number;
+  /** Null once the hand is full. */
+  hit: number | null;
+  /** P(the hand passes through this state) from the deal, under optimal play. */
+  reach: number;
+};
+
+/** `states[cards][total]`, for `cards` from the deal to `maxCards`. */
+export type Strategy = { states: StateValue[][] };
+
+const returnOf = (o: HandOdds, multiplier: number) => multiplier * o.win + o.push;
+
+const BUSTED: HandOdds = { win: 0, push: 0, lose: 1 };
+
+/**
+ * Optimal play for a win paying `multiplier` × the stake (a push returns
+ * the stake), for every total from 0 to the bust limit after every number
+ * of cards the player can hold. Solved backwards from a full hand, which
+ * can only stand; each hit draws a digit 0–9 and adds a card. Reach
+ * probabilities are then carried forwards from the deal, whose totals are
+ * distributed as `P_k_n(initialCards, ·)`.
+ */
+export const solveStrategy = (rules: BlackjackRules, multiplier: number): Strategy => {
+  const { bustLimit, initialCards, maxCards } = rules;
+  const dealer = dealerOdds(rules);
+  const states: StateValue[][] = [];
+
+  for (let n = maxCards; n >= initialCards; n--) {
+    states[n] = [];
+    const at = (t: number): HandOdds => (t > bustLimit ? BUSTED : states[n + 1][t]);
+    for (let t = bustLimit; t >= 0; t--) {
+      const below = dealer.totals.reduce((a, p, d) => (d < t ? a + p : a), 0);
+      const onStand: HandOdds = {
+        win: dealer.bust + below,
+        push: dealer.totals[t] ?? 0,
+        lose: 0,
+      };
+      onStand.lose = 1 - onStand.win - onStand.push;
+      const stand = returnOf(onStand, multiplier);
+
+      let onHit: HandOdds | null = null;
+      if (n < maxCards) {
+        onHit = { win: 0, push: 0, lose: 0 };
+        for (let card = 0; card <= 9; card++) {
+          const next = at(t + card);
+          onHit.win += next.win / 10;
+          onHit.push += next.push / 10;
+          onHit.lose += next.lose / 10;
+        }
+      }
+      const hit = onHit && returnOf(onHit, multiplier);
+      const action: Action = hit !== null && hit > stand ? "hit" : "stand";
+      states[n][t] = {
+        total: t,
+        cards: n,
+        action,
+        stand,
+        hit,
+        reach: 0,
+        ...(action === "hit" ? onHit! : onStand),
+      };
+    }
+  }
+
+  for (let t = 0; t <= bustLimit; t++) states[initialCards][t].reach = P_k_n(initialCards, t);
+  for (let n = initialCards; n < maxCards; n++)
+    for (const s of states[n])
+      if (s.action === "hit")
+        for (let card = 0; card <= 9 && s.total + card <= bustLimit; card++)
+          states[n + 1][s.total + card].reach += s.reach / 10;
+
+  return { states };
+};
+
+/** The state of a hand in play, or null once it is bust or past its card limit. */
+export const stateOf = (strategy: Strategy, cards: number[]): StateValue | null =>
+  strategy.states[cards.length]?.[handTotal(cards)] ?? null;
+
+export type GameOdds = HandOdds & {
+  /** Expected return per unit stake under optimal play. */
+  return: number;
+  /** 1 - return: the house's expected take per unit staked. */
+  houseEdge: number;
+};
+
+/** Odds of a whole game, from the deal, when the player plays optimally. */
+export const gameOdds = (rules: BlackjackRules, multiplier: number): GameOdds => {
+  const dealt = solveStrategy(rules, multiplier).states[rules.initialCards];
+  const deal = pmf(rules.initialCards);
+  const odds = { win: 0, push: 0, lose: 0 };
+  deal.forEach((p, t) => {
+    const o = t > rules.bustLimit ? BUSTED : dealt[t];
+    odds.win += p * o.win;
+    odds.push += p * o.push;
+    odds.lose += p * o.lose;
+  });
+  const ret = returnOf(odds, multiplier);
+  return { ...odds, return: ret, houseEdge: 1 - ret };
+};
+
+/**
+ * Win multiplier at which an optimal player breaks even. The return under
+ * optimal play only grows with the multiplier, so bisection finds it.
+ */
+export const fairMultiplier = (rules: BlackjackRules): number => {
+  let lo = 1;
+  let hi = 100;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (gameOdds(rules, mid).return < 1) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+};
+
+export type BlackjackQuote = GameOdds & {
+  fair: number;
+  /** Offered win multiplier: the fair one less `margin`. */
+  multiplier: number;
+  payout: number;
+};
+
+/** Price a game at `stake`, taking `margin` off the fair multiplier. */
+export const quoteBlackjack = (
+  rules: BlackjackRules,
+  stake: number,
+  margin: number,
+): BlackjackQuote => {
+  const fair = fairMultiplier(rules);
+  const multiplier = fair * (1 - margin);
+  return {
+    ...gameOdds(rules, multiplier),
+    fair,
+    multiplier,
+    payout: parseFloat((stake * multiplier).toFixed(2)),
+  };
+};
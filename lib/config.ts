@@ -0,0 +1,131 @@
+import { CONTRACT_TYPE_OPTIONS, type ContractType } from "@/lib/contract-types";
+import { INDEX_OPTIONS } from "@/lib/markets";
+import { DEFAULT_POLICY, type PricingPolicy } from "@/lib/policy";
+import { MAX_DURATION } from "@/lib/pricing";
+
+// ==========================================================
+// Operator config: markets on offer & pricing policy
+// ==========================================================
+// Edited on /admin and stored by the server; the trading page and the
+// contract engine both read it instead of hard-coded constants.
+
+export type MarketConfig = {
+  symbol: string;
+  label: string;
+  enabled: boolean;
+  /** Allowed contract durations, in ticks. */
+  minDuration: number;
+  maxDuration: number;
+  /** Contract types offered on this market. */
+  contractTypes: ContractType[];
+  /** Allowed targets of the sum-target types (sum, exact sum, bust). */
+  minTarget: number;
+  maxTarget: number;
+};
+
+export type AppConfig = {
+  markets: MarketConfig[];
+  policy: PricingPolicy;
+};
+
+const ALL_TYPES = CONTRACT_TYPE_OPTIONS.map((o) => o.value);
+
+/** Largest digit sum of the longest contract. */
+export const MAX_TARGET = 9 * MAX_DURATION;
+
+export const DEFAULT_CONFIG: AppConfig = {
+  markets: INDEX_OPTIONS.map((m) => ({
+    symbol: m.value,
+    label: m.label.trim(),
+    enabled: true,
+    minDuration: 1,
+    maxDuration: MAX_DURATION,
+    contractTypes: ALL_TYPES,
+    minTarget: 0,
+    maxTarget: MAX_TARGET,
+  })),
+  policy: DEFAULT_POLICY,
+};
+
+/**
+ * Lay a stored (possibly older, partial) config over the defaults, so
+ * markets and policy fields added since it was saved get default values.
+ */
+export const withDefaults = (stored: {
+  markets?: MarketConfig[];
+  policy?: Partial<PricingPolicy>;
+}): AppConfig => ({
+  markets: DEFAULT_CONFIG.markets.map((m) => ({
+    ...m,
+    ...stored.markets?.find((s) => s.symbol === m.symbol),
+  })),
+  policy: { ...DEFAULT_POLICY, ...stored.policy },
+});
+
+export const enabledMarkets = (config: AppConfig): MarketConfig[] =>
+  config.markets.filter((m) => m.enabled);
+
+export const marketConfig = (config: AppConfig, symbol: string): MarketConfig | undefined =>
+  config.markets.find((m) => m.symbol === symbol);
+
+// ---- validation ---- //
+
+/** Whether `v` is an integer in min..max, inclusive. */
+export const isIntIn = (v: unknown, min: number, max: number): v is number =>
+  Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+
+const parseMarket = (m: MarketConfig): MarketConfig => {
+  const { symbol, label, enabled, minDuration, maxDuration, contractTypes, minTarget, maxTarget } =
+    m;
+  if (typeof label !== "string" || !label.trim())
+    throw new RangeError(`${symbol}: label must not be empty`);
+  if (typeof enabled !== "boolean") throw new RangeError(`${symbol}: enabled must be a boolean`);
+  if (!isIntIn(minDuration, 1, MAX_DURATION) || !isIntIn(maxDuration, minDuration, MAX_DURATION))
+    throw new RangeError(`${symbol}: durations must satisfy 1 ≤ min ≤ max ≤ ${MAX_DURATION}`);
+  if (
+    !Array.isArray(contractTypes) ||
+    contractTypes.length === 0 ||
+    contractTypes.some((t) => !ALL_TYPES.includes(t))
+  )
+    throw new RangeError(`${symbol}: offer at least one known contract type`);
+  if (!isIntIn(minTarget, 0, MAX_TARGET) || !isIntIn(maxTarget, minTarget, MAX_TARGET))
+    throw new RangeError(`${symbol}: targets must satisfy 0 ≤ min ≤ max ≤ ${MAX_TARGET}`);
+  return {
+    symbol,
+    label: label.trim(),
+    enabled,
+    minDuration,
+    maxDuration,
+    contractTypes,
+    minTarget,
+    maxTarget,
+  };
+};
+
+const parsePolicy = (p: PricingPolicy): PricingPolicy => {
+  const policy = { ...DEFAULT_POLICY };
+  for (const key of Object.keys(DEFAULT_POLICY) as (keyof PricingPolicy)[]) {
+    const v = p?.[key];
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0)
+      throw new RangeError(`${key} must be a non-negative number`);
+    policy[key] = v;
+  }
+  if (policy.minProbability >= 1) throw new RangeError("minProbability must be below 1");
+  if (policy.maxMargin >= 1) throw new RangeError("maxMargin must be below 1");
+  if (policy.minStake <= 0 || policy.maxStake < policy.minStake)
+    throw new RangeError("Stakes must satisfy 0 < minStake ≤ maxStake");
+  return policy;
+};
+
+/** Validate an untrusted config edit; throws a RangeError naming the bad field. */
+export const parseConfig = (body: unknown): AppConfig => {
+  const b = (body ?? {}) as Partial<AppConfig>;
+  if (!Array.isArray(b.markets)) throw new RangeError("markets must be a list");
+  const known = new Set(DEFAULT_CONFIG.markets.map((m) => m.symbol));
+  const markets = b.markets.map((m) => {
+    if (!known.has(m?.symbol)) throw new RangeError(`Unknown market: ${String(m?.symbol)}`);
+    return parseMarket(m);
+  });
+  if (!markets.some((m) => m.enabled)) throw new RangeError("Enable at least one market");
+  return withDefaults({ markets, policy: parsePolicy(b.policy as PricingPolicy) });
+};
@@ -0,0 +1,284 @@
+import { isWin, type Contract } from "@/lib/contracts";
+import {
+  comb,
+  mean,
+  payoutFor,
+  prob,
+  probWhere,
+  sellPriceFor,
+  variance,
+  type Direction,
+} from "@/lib/pricing";
+
+// ==========================================================
+// Contract-type registry: pricing & settlement rule per type
+// ==========================================================
+// Every type settles on the last digits of the k ticks after the entry
+// tick, which pricing assumes i.i.d. uniform on 0–9. A type knows how to
+// price its spec over k ticks, also part-way through once some digits are
+// known, and whether a full digit sequence wins.
+
+export type Parity = "even" | "odd";
+
+export type ContractSpec =
+  | { type: "sum"; target: number; direction: Direction; allowEqual: boolean }
+  | { type: "equals"; target: number }
+  | { type: "range"; low: number; high: number; outside: boolean }
+  | { type: "bust"; target: number }
+  | { type: "parity"; parity: Parity; target: number; direction: Direction; allowEqual: boolean }
+  | { type: "digit"; digit: number; differs: boolean };
+
+export type ContractType = ContractSpec["type"];
+export type SpecOf<T extends ContractType> = Extract<ContractSpec, { type: T }>;
+
+/** Sum above which a "bust" contract loses, as in blackjack. */
+export const BUST_LIMIT = 21;
+
+type ContractTypeDef<S extends ContractSpec> = {
+  label: string;
+  /** Spec offered when switching to this type on a k-tick contract. */
+  defaults(k: number): S;
+  /** Clamp a spec back into range after the duration changes to k. */
+  fit(spec: S, k: number): S;
+  /** Validate untrusted fields for a k-tick contract; throws a RangeError. */
+  parse(b: Record<string, unknown>, k: number): S;
+  /** Win probability over k ticks, given the digits `seen` so far. */
+  prob(spec: S, k: number, seen: number[]): number;
+  wins(spec: S, digits: number[]): boolean;
+  /** Short form of the bet, e.g. "sum > 22" or "last digit ≠ 7". */
+  describe(spec: S): string;
+  /** What the contract settles on, observed so far: [label, value]. */
+  measure(spec: S, digits: number[]): [string, number | null];
+};
+
+// ---- helpers ---- //
+
+const sumOf = (digits: number[]) => digits.reduce((a, d) => a + d, 0);
+
+const clamp = (x: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, x));
+
+const countOf = (parity: Parity, digits: number[]) =>
+  digits.filter((d) => d % 2 === (parity === "even" ? 0 : 1)).length;
+
+/** P(sum of all k digits satisfies `win`), given the digits `seen` so far. */
+const sumProb = (k: number, seen: number[], win: (sum: number) => boolean): number => {
+  const sum = sumOf(seen);
+  return probWhere(k - seen.length, (n) => win(sum + n));
+};
+
+/** P(count of even, or odd, digits in k satisfies `win`): Binomial(k, 1/2). */
+const countProb = (k: number, win: (count: number) => boolean): number => {
+  let ways = 0;
+  for (let c = 0; c <= k; c++) if (win(c)) ways += comb(k, c);
+  return ways / 2 ** k;
+};
+
+const comparison = (direction: Direction, allowEqual: boolean) =>
+  `${direction === "Higher" ? ">" : "<"}${allowEqual ? "=" : ""}`;
+
+const intField = (b: Record<string, unknown>, key: string, min: number, max: number): number => {
+  const v = b[key];
+  if (!Number.isInteger(v) || (v as number) < min || (v as number) > max)
+    throw new RangeError(`${key[0].toUpperCase()}${key.slice(1)} must be ${min}–${max}`);
+  return v as number;
+};
+
+const boolField = (b: Record<string, unknown>, key: string): boolean => {
+  if (typeof b[key] !== "boolean") throw new RangeError(`${key} must be a boolean`);
+  return b[key] as boolean;
+};
+
+const directionField = (b: Record<string, unknown>): Direction => {
+  if (b.direction !== "Higher" && b.direction !== "Lower")
+    throw new RangeError("Direction must be Higher or Lower");
+  return b.direction;
+};
+
+// ---- registry ---- //
+
+export const CONTRACT_TYPES: { [T in ContractType]: ContractTypeDef<SpecOf<T>> } = {
+  sum: {
+    label: "Sum Higher / Lower",
+    defaults: (k) => ({
+      type: "sum",
+      target: Math.floor(mean(k)),
+      direction: "Higher",
+      allowEqual: false,
+    }),
+    fit: (s, k) => ({ ...s, target: clamp(s.target, 0, 9 * k) }),
+    parse: (b, k) => ({
+      type: "sum",
+      target: intField(b, "target", 0, 9 * k),
+      direction: directionField(b),
+      allowEqual: boolField(b, "allowEqual"),
+    }),
+    // The remaining ticks must make up what is left of the target
+    prob: (s, k, seen) =>
+      prob(k - seen.length, s.target - sumOf(seen), s.direction, s.allowEqual),
+    wins: (s, digits) => isWin(s, sumOf(digits)),
+    describe: (s) => `sum ${comparison(s.direction, s.allowEqual)} ${s.target}`,
+    measure: (_, digits) => ["Sum", sumOf(digits)],
+  },
+
+  equals: {
+    label: "Sum Equals",
+    defaults: (k) => ({ type: "equals", target: Math.floor(mean(k)) }),
+    fit: (s, k) => ({ ...s, target: clamp(s.target, 0, 9 * k) }),
+    parse: (b, k) => ({ type: "equals", target: intField(b, "target", 0, 9 * k) }),
+    prob: (s, k, seen) => sumProb(k, seen, (sum) => sum === s.target),
+    wins: (s, digits) => sumOf(digits) === s.target,
+    describe: (s) => `sum = ${s.target}`,
+    measure: (_, digits) => ["Sum", sumOf(digits)],
+  },
+
+  range: {
+    label: "Sum Between / Outside",
+    // About one standard deviation either side of the mean
+    defaults: (k) => ({
+      type: "range",
+      low: Math.max(0, Math.round(mean(k) - Math.sqrt(variance(k)))),
+      high: Math.min(9 * k, Math.round(mean(k) + Math.sqrt(variance(k)))),
+      outside: false,
+    }),
+    fit: (s, k) => {
+      const high = clamp(s.high, 0, 9 * k);
+      return { ...s, low: clamp(s.low, 0, high), high };
+    },
+    parse: (b, k) => {
+      const low = intField(b, "low", 0, 9 * k);
+      return {
+        type: "range",
+        low,
+        high: intField(b, "high", low, 9 * k),
+        outside: boolField(b, "outside"),
+      };
+    },
+    prob: (s, k, seen) =>
+      sumProb(k, seen, (sum) => (sum >= s.low && sum <= s.high) !== s.outside),
+    wins: (s, digits) => {
+      const sum = sumOf(digits);
+      return (sum >= s.low && sum <= s.high) !== s.outside;
+    },
+    describe: (s) => `sum ${s.outside ? "outside" : "in"} ${s.low}–${s.high}`,
+    measure: (_, digits) => ["Sum", sumOf(digits)],
+  },
+
+  bust: {
+    label: `Bust (${BUST_LIMIT})`,
+    // Wins when the sum reaches `target` without going over the bust limit
+    defaults: (k) => ({ type: "bust", target: Math.min(17, 9 * k) }),
+    fit: (s, k) => ({ ...s, target: clamp(s.target, 0, Math.min(BUST_LIMIT, 9 * k)) }),
+    parse: (b, k) => ({
+      type: "bust",
+      target: intField(b, "target", 0, Math.min(BUST_LIMIT, 9 * k)),
+    }),
+    prob: (s, k, seen) => sumProb(k, seen, (sum) => sum >= s.target && sum <= BUST_LIMIT),
+    wins: (s, digits) => {
+      const sum = sumOf(digits);
+      return sum >= s.target && sum <= BUST_LIMIT;
+    },
+    describe: (s) => `sum ${s.target}–${BUST_LIMIT}, over ${BUST_LIMIT} busts`,
+    measure: (_, digits) => ["Sum", sumOf(digits)],
+  },
+
+  parity: {
+    label: "Even / Odd Count",
+    defaults: (k) => ({
+      type: "parity",
+      parity: "even",
+      target: Math.floor(k / 2),
+      direction: "Higher",
+      allowEqual: false,
+    }),
+    fit: (s, k) => ({ ...s, target: clamp(s.target, 0, k) }),
+    parse: (b, k) => {
+      if (b.parity !== "even" && b.parity !== "odd")
+        throw new RangeError("Parity must be even or odd");
+      return {
+        type: "parity",
+        parity: b.parity,
+        target: intField(b, "target", 0, k),
+        direction: directionField(b),
+        allowEqual: boolField(b, "allowEqual"),
+      };
+    },
+    prob: (s, k, seen) => {
+      const count = countOf(s.parity, seen);
+      return countProb(k - seen.length, (c) => isWin(s, count + c));
+    },
+    wins: (s, digits) => isWin(s, countOf(s.parity, digits)),
+    describe: (s) => `${s.parity} digits ${comparison(s.direction, s.allowEqual)} ${s.target}`,
+    measure: (s, digits) => [
+      s.parity === "even" ? "Even digits" : "Odd digits",
+      countOf(s.parity, digits),
+    ],
+  },
+
+  digit: {
+    label: "Last Digit Matches / Differs",
+    defaults: () => ({ type: "digit", digit: 5, differs: false }),
+    fit: (s) => s,
+    parse: (b) => ({
+      type: "digit",
+      digit: intField(b, "digit", 0, 9),
+      differs: boolField(b, "differs"),
+    }),
+    prob: (s, k, seen) =>
+      seen.length < k ? (s.differs ? 0.9 : 0.1) : CONTRACT_TYPES.digit.wins(s, seen) ? 1 : 0,
+    wins: (s, digits) => (digits[digits.length - 1] === s.digit) !== s.differs,
+    describe: (s) => `last digit ${s.differs ? "≠" : "="} ${s.digit}`,
+    measure: (_, digits) => ["Last digit", digits.length ? digits[digits.length - 1] : null],
+  },
+};
+
+export const CONTRACT_TYPE_OPTIONS = (Object.keys(CONTRACT_TYPES) as ContractType[]).map(
+  (value) => ({ label: CONTRACT_TYPES[value].label, value }),
+);
+
+// Method parameters are bivariant, so any type's def accepts the union
+const defOf = (spec: ContractSpec) => CONTRACT_TYPES[spec.type] as ContractTypeDef<ContractSpec>;
+
+export const defaultSpec = (type: ContractType, k: number): ContractSpec =>
+  CONTRACT_TYPES[type].defaults(k);
+
+export const fitSpec = (spec: ContractSpec, k: number): ContractSpec => defOf(spec).fit(spec, k);
+
+/** Win probability of `spec` settled over k ticks, given the digits `seen` so far. */
+export const specProb = (spec: ContractSpec, k: number, seen: number[] = []): number =>
+  defOf(spec).prob(spec, k, seen);
+
+/** Settlement rule: does this full digit sequence win? */
+export const specWins = (spec: ContractSpec, digits: number[]): boolean =>
+  defOf(spec).wins(spec, digits);
+
+export const describeSpec = (spec: ContractSpec): string => defOf(spec).describe(spec);
+
+export const measureSpec = (spec: ContractSpec, digits: number[]) =>
+  defOf(spec).measure(spec, digits);
+
+/** Validate an untrusted spec for a k-tick contract; throws a RangeError. */
+export const parseSpec = (body: unknown, k: number): ContractSpec => {
+  const b = (body ?? {}) as Record<string, unknown>;
+  if (!CONTRACT_TYPE_OPTIONS.some((o) => o.value === b.type))
+    throw new RangeError(`Unknown contract type: ${String(b.type)}`);
+  return defOf(b as ContractSpec).parse(b, k);
+};
+
+/** Quoted terms shown before a bet: probability, fair and offered payouts. */
+export const quoteSpec = (stake: number, spec: ContractSpec, k: number, margin: number) => {
+  const p = specProb(spec, k);
+  return {
+    p,
+    fair: payoutFor(stake, p, 0),
+    offered: payoutFor(stake, p, margin),
+  };
+};
+
+/**
+ * Win probability of a running contract given the digits settled so far,
+ * and the price the house would buy it back at right now.
+ */
+export const liveQuote = (c: Contract) => {
+  const p = specProb(c.spec, c.duration, c.digits);
+  return { p, sellPrice: sellPriceFor(c.payout, p, c.margin) };
+};
@@ -0,0 +1,65 @@
+import type { ContractSpec } from "@/lib/contract-types";
+import type { Direction } from "@/lib/pricing";
+import type { LiveFeedKind, Tick } from "@/lib/feeds/types";
+
+// ==========================================================
+// Digit contract: terms, lifecycle & settlement rule
+// ==========================================================
+// Shared by the server-side engine (which settles) and the page (which only
+// renders what the engine reports). What wins is up to the contract type
+// (`lib/contract-types`).
+
+export type ContractTerms = {
+  symbol: string;
+  feed: LiveFeedKind;
+  duration: number;
+  spec: ContractSpec;
+  stake: number;
+  margin: number;
+};
+
+/** What a player asks for; the margin is set by the pricing policy. */
+export type ContractOrder = Omit<ContractTerms, "margin">;
+
+/**
+ * `pending` waits for the entry tick, `open` collects the settlement ticks.
+ * `sold` was bought back by the house before expiry.
+ */
+export type ContractStatus = "pending" | "open" | "won" | "lost" | "void" | "sold";
+
+export type Contract = ContractTerms & {
+  id: string;
+  status: ContractStatus;
+  /** Win probability and offered payout quoted at purchase. */
+  probability: number;
+  payout: number;
+  createdAt: number;
+  /** Entry spot: the first tick after purchase. */
+  entry: Tick | null;
+  /** The settlement ticks so far, strictly after the entry and each other by epoch. */
+  ticks: Tick[];
+  /** Last digit of each of `ticks`. */
+  digits: number[];
+  /** Sum of `digits`, whatever the type settles on. */
+  sum: number;
+  settledAt: number | null;
+  voidReason: string | null;
+  /** Price the contract was sold back at, if it was. */
+  soldFor: number | null;
+};
+
+export type SettledStatus = Exclude<ContractStatus, "pending" | "open">;
+
+export const isSettled = <C extends Pick<Contract, "status">>(
+  c: C,
+): c is C & { status: SettledStatus } =>
+  c.status === "won" || c.status === "lost" || c.status === "void" || c.status === "sold";
+
+/** One-sided rule: is `value` Higher/Lower than `target` (or equal, if allowed)? */
+export const isWin = (
+  { direction, allowEqual, target }: { direction: Direction; allowEqual: boolean; target: number },
+  value: number,
+): boolean =>
+  direction === "Higher"
+    ? allowEqual ? value >= target : value > target
+    : allowEqual ? value <= target : value < target;
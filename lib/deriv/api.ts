@@ -0,0 +1,233 @@
+import { DERIV_APP_ID, DERIV_WS_URL } from "@/lib/feeds";
+
+// ==========================================================
+// Deriv API client: request/response & subscriptions
+// ==========================================================
+// One WebSocket per signed-in session. Every request carries a `req_id`
+// that Deriv echoes on its response and on every message of a stream, which
+// is how replies are matched back to their callers.
+
+/** Deriv's login page; it redirects back with `?acct1=…&token1=…` for each account. */
+export const DERIV_OAUTH_URL = `https://oauth.deriv.com/oauth2/authorize?app_id=${DERIV_APP_ID}`;
+
+/** An `error` reply from Deriv, e.g. `InvalidToken` or `ContractBuyValidationError`. */
+export class DerivApiError extends Error {
+  name = "DerivApiError";
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// ---- message shapes (only the fields the app reads) ---- //
+
+export type DerivAccount = {
+  loginid: string;
+  currency: string;
+  balance: number;
+  fullname?: string;
+  /** Demo (virtual money) account. */
+  is_virtual: 0 | 1;
+};
+
+export type DerivBalance = { balance: number; currency: string; loginid: string };
+
+export type DerivProposal = {
+  id: string;
+  ask_price: number;
+  payout: number;
+  longcode: string;
+};
+
+export type DerivPurchase = {
+  contract_id: number;
+  buy_price: number;
+  payout: number;
+  balance_after: number;
+  longcode: string;
+};
+
+export type DerivOpenContract = {
+  contract_id: number;
+  underlying: string;
+  contract_type: string;
+  status: "open" | "won" | "lost" | "sold" | "cancelled";
+  is_sold: 0 | 1;
+  buy_price: number;
+  payout: number;
+  profit: number;
+  longcode: string;
+  tick_count?: number;
+  current_spot_display_value?: string;
+};
+
+type DerivMessage = {
+  msg_type: string;
+  req_id?: number;
+  error?: { code: string; message: string };
+  subscription?: { id: string };
+} & Record<string, unknown>;
+
+type Pending = { resolve: (msg: DerivMessage) => void; reject: (e: Error) => void };
+
+type Stream = {
+  onMessage: (msg: DerivMessage) => void;
+  onError: (e: Error) => void;
+  subscriptionId?: string;
+  /** Forgotten before Deriv named the stream; forget it once it does. */
+  cancelled?: boolean;
+};
+
+export type DerivClientOptions = {
+  url?: string;
+  /** Keepalive period; Deriv drops sockets that stay silent for 2 minutes. */
+  pingIntervalMs?: number;
+  /** A request with no reply after this long is rejected. */
+  timeoutMs?: number;
+  WebSocketImpl?: typeof WebSocket;
+};
+
+export type DerivClient = {
+  /** Send one request; resolves to the whole reply or rejects with a DerivApiError. */
+  request(payload: object): Promise<DerivMessage>;
+  /**
+   * Open a stream (`subscribe: 1` is added); `onMessage` gets every message,
+   * the first reply included. Returns a function that forgets the stream.
+   */
+  subscribe(
+    payload: object,
+    onMessage: (msg: DerivMessage) => void,
+    onError: (e: Error) => void,
+  ): () => void;
+  /** Called once if the connection drops; pending requests and streams fail. */
+  onClose(listener: () => void): () => void;
+  close(): void;
+};
+
+const OPEN = 1; // WebSocket.OPEN, without relying on the global
+
+const toError = (msg: DerivMessage) =>
+  msg.error ? new DerivApiError(msg.error.code, msg.error.message) : null;
+
+export const createDerivClient = ({
+  url = DERIV_WS_URL,
+  pingIntervalMs = 30_000,
+  timeoutMs = 30_000,
+  WebSocketImpl = globalThis.WebSocket,
+}: DerivClientOptions = {}): DerivClient => {
+  const pending = new Map<number, Pending>();
+  const streams = new Map<number, Stream>();
+  const closeListeners = new Set<() => void>();
+  let nextId = 1;
+  let closed = false;
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+
+  const ws = new WebSocketImpl(url);
+  const opened = new Promise<void>((resolve, reject) => {
+    ws.onopen = () => {
+      keepalive = setInterval(() => ws.send(JSON.stringify({ ping: 1 })), pingIntervalMs);
+      resolve();
+    };
+    ws.onerror = () => reject(new Error("Could not reach Deriv"));
+  });
+  opened.catch(() => {}); // surfaced through the first request instead
+
+  ws.onmessage = (ev) => {
+    let msg: DerivMessage;
+    try {
+      msg = JSON.parse(ev.data);
+    } catch {
+      return; // torn; whatever it answered times out
+    }
+    if (msg.req_id === undefined) return;
+    const waiting = pending.get(msg.req_id);
+    if (waiting) {
+      pending.delete(msg.req_id);
+      const err = toError(msg);
+      if (err) waiting.reject(err);
+      else waiting.resolve(msg);
+    }
+    const stream = streams.get(msg.req_id);
+    if (!stream) return;
+    const err = toError(msg);
+    if (err) {
+      streams.delete(msg.req_id);
+      if (!stream.cancelled) stream.onError(err);
+      return;
+    }
+    stream.subscriptionId ??= msg.subscription?.id;
+    if (stream.cancelled) {
+      streams.delete(msg.req_id);
+      if (stream.subscriptionId) ws.send(JSON.stringify({ forget: stream.subscriptionId }));
+      return;
+    }
+    stream.onMessage(msg);
+  };
+
+  ws.onclose = () => {
+    clearInterval(keepalive);
+    const lost = new Error("Connection to Deriv closed");
+    pending.forEach((p) => p.reject(lost));
+    pending.clear();
+    if (!closed) streams.forEach((s) => !s.cancelled && s.onError(lost));
+    streams.clear();
+    if (!closed) closeListeners.forEach((l) => l());
+    closed = true;
+  };
+
+  const send = async (payload: object): Promise<number> => {
+    await opened;
+    if (ws.readyState !== OPEN) throw new Error("Connection to Deriv closed");
+    const req_id = nextId++;
+    ws.send(JSON.stringify({ ...payload, req_id }));
+    return req_id;
+  };
+
+  return {
+    request: (payload) =>
+      new Promise((resolve, reject) => {
+        // Registered once the id is known; replies cannot arrive before the send
+        send(payload).then((id) => {
+          const timer = setTimeout(() => {
+            pending.delete(id);
+            reject(new Error("Deriv did not answer in time"));
+          }, timeoutMs);
+          const settle = <T>(fn: (v: T) => void) => (v: T) => {
+            clearTimeout(timer);
+            fn(v);
+          };
+          pending.set(id, { resolve: settle(resolve), reject: settle(reject) });
+        }, reject);
+      }),
+
+    subscribe(payload, onMessage, onError) {
+      const stream: Stream = { onMessage, onError };
+      let id: number | undefined;
+      send({ ...payload, subscribe: 1 }).then(
+        (reqId) => {
+          id = reqId;
+          streams.set(reqId, stream);
+        },
+        (e: Error) => !stream.cancelled && onError(e),
+      );
+      return () => {
+        stream.cancelled = true;
+        if (id === undefined || !stream.subscriptionId) return;
+        streams.delete(id);
+        if (ws.readyState === OPEN) ws.send(JSON.stringify({ forget: stream.subscriptionId }));
+      };
+    },
+
+    onClose(listener) {
+      closeListeners.add(listener);
+      return () => closeListeners.delete(listener);
+    },
+
+    close() {
+      closed = true;
+      ws.close();
+    },
+  };
+};
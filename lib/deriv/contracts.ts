@@ -0,0 +1,86 @@
+import { specWins, type ContractSpec } from "@/lib/contract-types";
+
+// ==========================================================
+// Mapping our bets onto Deriv's digit contracts
+// ==========================================================
+// Deriv settles digit contracts on the last digit of the final tick only.
+// A one-tick bet of any type is a rule on a single digit, so it maps when
+// that rule is one Deriv offers; longer bets map only when they too depend
+// on the final digit alone (matches / differs).
+
+export type DerivContractType =
+  | "DIGITMATCH"
+  | "DIGITDIFF"
+  | "DIGITEVEN"
+  | "DIGITODD"
+  | "DIGITOVER"
+  | "DIGITUNDER";
+
+export type DerivBet = {
+  contractType: DerivContractType;
+  /** The digit the contract compares against, for the types that take one. */
+  barrier: number | null;
+  /** In ticks. */
+  duration: number;
+};
+
+/** Deriv's digit contracts run 1–10 ticks. */
+export const DERIV_MAX_TICKS = 10;
+
+const DIGITS = Array.from({ length: 10 }, (_, d) => d);
+
+const sameDigits = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((d, i) => d === b[i]);
+
+const isRun = (digits: number[]) => digits.every((d, i) => d === digits[0] + i);
+
+/** The Deriv contract with exactly this set of winning final digits, if there is one. */
+const forWinningDigits = (win: number[], duration: number): DerivBet | null => {
+  const bet = (contractType: DerivContractType, barrier: number | null = null) => ({
+    contractType,
+    barrier,
+    duration,
+  });
+  if (win.length === 1) return bet("DIGITMATCH", win[0]);
+  if (win.length === 9) return bet("DIGITDIFF", DIGITS.find((d) => !win.includes(d))!);
+  if (sameDigits(win, [0, 2, 4, 6, 8])) return bet("DIGITEVEN");
+  if (sameDigits(win, [1, 3, 5, 7, 9])) return bet("DIGITODD");
+  if (win.length === 0 || win.length === 10 || !isRun(win)) return null;
+  // Over n wins on n+1..9 (n = 0..8), under n on 0..n-1 (n = 1..9)
+  if (win[win.length - 1] === 9) return bet("DIGITOVER", win[0] - 1);
+  if (win[0] === 0) return bet("DIGITUNDER", win.length);
+  return null;
+};
+
+/** The Deriv contract that wins exactly when `spec` does over k ticks, or null. */
+export const toDerivBet = (spec: ContractSpec, k: number): DerivBet | null => {
+  if (k > DERIV_MAX_TICKS) return null;
+  if (spec.type === "digit")
+    return forWinningDigits(
+      DIGITS.filter((d) => (d === spec.digit) !== spec.differs),
+      k,
+    );
+  if (k !== 1) return null;
+  return forWinningDigits(DIGITS.filter((d) => specWins(spec, [d])), k);
+};
+
+export const describeDerivBet = (bet: DerivBet): string =>
+  `${bet.contractType}${bet.barrier !== null ? ` ${bet.barrier}` : ""} · ${bet.duration}t`;
+
+/** A `proposal` request for `bet` on `symbol` at `stake`. */
+export const proposalRequest = (
+  bet: DerivBet,
+  symbol: string,
+  stake: number,
+  currency: string,
+) => ({
+  proposal: 1,
+  amount: stake,
+  basis: "stake",
+  contract_type: bet.contractType,
+  currency,
+  duration: bet.duration,
+  duration_unit: "t",
+  symbol,
+  ...(bet.barrier !== null ? { barrier: String(bet.barrier) } : {}),
+});
@@ -0,0 +1,121 @@
+// ==========================================================
+// Empirical checks of the i.i.d. uniform last-digit assumption
+// ==========================================================
+// Pricing (`lib/pricing`) assumes every last digit is uniform on 0–9 and
+// independent of the previous one. These tests flag feeds where that fails.
+
+/** Below this many digits the tests have too little power to trust. */
+export const MIN_SAMPLES = 100;
+/** p-value under which a test counts as a significant deviation. */
+export const ALPHA = 0.01;
+
+export type DigitStats = {
+  n: number;
+  counts: number[];
+  /** transitions[a][b] = times digit b directly followed digit a. */
+  transitions: number[][];
+  chiSquare: { stat: number; df: number; p: number };
+  /** Lag-1 autocorrelation of the digit sequence. */
+  serial: { r: number; z: number; p: number };
+  deviates: boolean;
+};
+
+// ---- special functions ---- //
+
+const lnGamma = (x: number): number => {
+  // Lanczos approximation (g = 7, n = 9)
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+    771.32342877765313, -176.61502916214059, 12.507343278686905,
+    -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+  ];
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  x -= 1;
+  let a = c[0];
+  const t = x + 7.5;
+  for (let i = 1; i < 9; i++) a += c[i] / (x + i);
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+};
+
+/** Regularised upper incomplete gamma Q(s, x). */
+const gammaQ = (s: number, x: number): number => {
+  if (x <= 0) return 1;
+  if (x < s + 1) {
+    // series for P(s, x)
+    let sum = 1 / s;
+    let term = sum;
+    for (let k = 1; k < 500 && Math.abs(term) > Math.abs(sum) * 1e-15; k++) {
+      term *= x / (s + k);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(-x + s * Math.log(x) - lnGamma(s));
+  }
+  // continued fraction for Q(s, x), modified Lentz
+  let b = x + 1 - s;
+  let c = 1 / 1e-300;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - s);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < 1e-300) d = 1e-300;
+    c = b + an / c;
+    if (Math.abs(c) < 1e-300) c = 1e-300;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(-x + s * Math.log(x) - lnGamma(s)) * h;
+};
+
+/** P(X >= stat) for X ~ chi-square with `df` degrees of freedom. */
+export const chiSquarePValue = (stat: number, df: number): number =>
+  gammaQ(df / 2, stat / 2);
+
+/** Two-sided p-value of a standard normal z. */
+export const normalPValue = (z: number): number => {
+  // erfc via Abramowitz–Stegun 7.1.26
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly =
+    t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return Math.min(1, poly * Math.exp(-x * x));
+};
+
+// ---- tests ---- //
+
+export const digitStats = (digits: number[]): DigitStats => {
+  const n = digits.length;
+  const counts = Array(10).fill(0);
+  const transitions = Array.from({ length: 10 }, () => Array(10).fill(0));
+  digits.forEach((d, i) => {
+    counts[d] += 1;
+    if (i > 0) transitions[digits[i - 1]][d] += 1;
+  });
+
+  const expected = n / 10;
+  const stat = n ? counts.reduce((a, o) => a + (o - expected) ** 2 / expected, 0) : 0;
+  const chiSquare = { stat, df: 9, p: n ? chiSquarePValue(stat, 9) : 1 };
+
+  const mean = n ? digits.reduce((a, d) => a + d, 0) / n : 0;
+  let num = 0;
+  let den = 0;
+  digits.forEach((d, i) => {
+    den += (d - mean) ** 2;
+    if (i > 0) num += (digits[i - 1] - mean) * (d - mean);
+  });
+  const r = den > 0 ? num / den : 0;
+  const z = r * Math.sqrt(n);
+  const serial = { r, z, p: n > 1 ? normalPValue(z) : 1 };
+
+  return {
+    n,
+    counts,
+    transitions,
+    chiSquare,
+    serial,
+    deviates: n >= MIN_SAMPLES && (chiSquare.p < ALPHA || serial.p < ALPHA),
+  };
+};
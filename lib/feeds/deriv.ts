@@ -0,0 +1,219 @@
+import { defaultPipSize } from "@/lib/markets";
+import {
+  tickId,
+  type FeedStatus,
+  type StatusListener,
+  type TickFeed,
+  type TickListener,
+} from "./types";
+
+/** Registered Deriv app; 1089 is Deriv's public demo app‑id. */
+export const DERIV_APP_ID = process.env.NEXT_PUBLIC_DERIV_APP_ID || "1089";
+
+/** Deriv API endpoint; point NEXT_PUBLIC_DERIV_WS_URL at a local mock to test offline. */
+export const DERIV_WS_URL =
+  process.env.NEXT_PUBLIC_DERIV_WS_URL ||
+  `wss://ws.binaryws.com/websockets/v3?l=EN&app_id=${DERIV_APP_ID}`;
+
+export type DerivFeedOptions = {
+  url?: string;
+  /** Keepalive period; Deriv drops sockets that stay silent for 2 minutes. */
+  pingIntervalMs?: number;
+  /** A subscribed symbol with no tick for this long marks the feed stale. */
+  staleAfterMs?: number;
+  /** First reconnect delay; doubles on every failed attempt. */
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Constructor to use where there is no global WebSocket (Node < 22). */
+  WebSocketImpl?: typeof WebSocket;
+};
+
+const WATCHDOG_MS = 1000;
+const OPEN = 1; // WebSocket.OPEN, without relying on the global
+
+/**
+ * Deriv `ticks` stream over one shared WebSocket. Dropped or stale
+ * connections are retried with exponential backoff and every active
+ * subscription is re-sent once the socket opens again.
+ */
+export const createDerivFeed = ({
+  url = DERIV_WS_URL,
+  pingIntervalMs = 30_000,
+  staleAfterMs = 10_000,
+  initialBackoffMs = 1000,
+  maxBackoffMs = 30_000,
+  WebSocketImpl = globalThis.WebSocket,
+}: DerivFeedOptions = {}): TickFeed => {
+  const listeners = new Map<string, Set<TickListener>>();
+  const statusListeners = new Set<StatusListener>();
+  const pipSizes = new Map<string, number>();
+  const subscriptionIds = new Map<string, string>(); // symbol → Deriv stream id
+  const dropped = new Set<string>(); // symbols left before their stream id arrived
+  const lastTickAt = new Map<string, number>(); // symbol → Date.now() of last tick/subscribe
+  let ws: WebSocket | null = null;
+  let status: FeedStatus = "closed";
+  let attempt = 0;
+  let lastPingAt = 0;
+  let closing = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let watchdog: ReturnType<typeof setInterval> | undefined;
+
+  const setStatus = (s: FeedStatus) => {
+    if (s === status) return;
+    status = s;
+    statusListeners.forEach((l) => l(s));
+  };
+
+  const send = (payload: object) => {
+    if (ws?.readyState === OPEN) ws.send(JSON.stringify(payload));
+  };
+
+  const subscribeSymbol = (symbol: string) => {
+    lastTickAt.set(symbol, Date.now());
+    send({ ticks: symbol, subscribe: 1 });
+  };
+
+  const scheduleReconnect = () => {
+    const delay = Math.min(maxBackoffMs, initialBackoffMs * 2 ** attempt);
+    attempt += 1;
+    setStatus("reconnecting");
+    reconnectTimer = setTimeout(connect, delay * (0.75 + Math.random() / 2));
+  };
+
+  // Keepalive ping plus stale-feed detection; a stale socket is recycled.
+  const checkHealth = () => {
+    if (ws?.readyState !== OPEN) return;
+    const now = Date.now();
+    if (now - lastPingAt >= pingIntervalMs) {
+      lastPingAt = now;
+      send({ ping: 1 });
+    }
+    const quiet = [...listeners.keys()].some(
+      (symbol) => now - (lastTickAt.get(symbol) ?? now) > staleAfterMs,
+    );
+    if (quiet) {
+      setStatus("stale");
+      ws.close();
+    }
+  };
+
+  const connect = () => {
+    reconnectTimer = undefined;
+    const socket = new WebSocketImpl(url);
+    ws = socket;
+    if (status !== "reconnecting") setStatus("connecting");
+
+    socket.onopen = () => {
+      attempt = 0;
+      lastPingAt = Date.now();
+      setStatus("open");
+      listeners.forEach((_, symbol) => subscribeSymbol(symbol));
+    };
+
+    socket.onmessage = (ev) => {
+      let msg;
+      try {
+        msg = JSON.parse(ev.data);
+      } catch {
+        console.error("Deriv sent malformed JSON", ev.data);
+        return;
+      }
+      if (msg.error) {
+        console.error("Deriv error", msg.error);
+        if (msg.echo_req?.ticks) dropped.delete(msg.echo_req.ticks);
+        return;
+      }
+      if (msg.msg_type !== "tick") return;
+
+      const symbol: string = msg.tick.symbol;
+      // Only now can a stream dropped while pending be forgotten
+      if (msg.subscription?.id && dropped.delete(symbol)) {
+        send({ forget: msg.subscription.id });
+        return;
+      }
+      if (!listeners.has(symbol)) return; // a late tick of a forgotten stream
+      if (msg.subscription?.id) subscriptionIds.set(symbol, msg.subscription.id);
+      if (typeof msg.tick.pip_size === "number")
+        pipSizes.set(symbol, msg.tick.pip_size);
+      lastTickAt.set(symbol, Date.now());
+      if (status === "stale") setStatus("open");
+
+      const tick = {
+        id: tickId(symbol, msg.tick.epoch),
+        symbol,
+        epoch: msg.tick.epoch,
+        quote: parseFloat(msg.tick.quote),
+        pipSize: pipSizes.get(symbol) ?? defaultPipSize(symbol),
+      };
+      listeners.get(symbol)?.forEach((l) => l(tick));
+    };
+
+    socket.onerror = (e) => console.error("WS error", e);
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      subscriptionIds.clear();
+      dropped.clear();
+      if (closing || listeners.size === 0) setStatus("closed");
+      else scheduleReconnect();
+    };
+  };
+
+  return {
+    kind: "deriv",
+
+    subscribe(symbol, listener) {
+      const set = listeners.get(symbol) ?? new Set();
+      const isNew = set.size === 0;
+      set.add(listener);
+      listeners.set(symbol, set);
+      closing = false;
+
+      watchdog ??= setInterval(checkHealth, WATCHDOG_MS);
+      if (!ws && !reconnectTimer) connect();
+      // Back before its first tick: the pending stream is still ours
+      else if (isNew && dropped.delete(symbol)) lastTickAt.set(symbol, Date.now());
+      else if (isNew) subscribeSymbol(symbol);
+    },
+
+    unsubscribe(symbol, listener) {
+      const set = listeners.get(symbol);
+      if (!set) return;
+      set.delete(listener);
+      if (set.size > 0) return;
+
+      listeners.delete(symbol);
+      lastTickAt.delete(symbol);
+      const id = subscriptionIds.get(symbol);
+      if (id) send({ forget: id });
+      else if (ws?.readyState === OPEN) dropped.add(symbol);
+      subscriptionIds.delete(symbol);
+
+      // Nothing left to watch; the next subscribe restarts the watchdog
+      if (listeners.size === 0) {
+        clearInterval(watchdog);
+        watchdog = undefined;
+      }
+    },
+
+    status: () => status,
+
+    onStatus(listener) {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+
+    pipSize: (symbol) => pipSizes.get(symbol) ?? defaultPipSize(symbol),
+
+    close() {
+      closing = true;
+      listeners.clear();
+      clearTimeout(reconnectTimer);
+      reconnectTimer = undefined;
+      clearInterval(watchdog);
+      watchdog = undefined;
+      if (ws) ws.close();
+      else setStatus("closed");
+    },
+  };
+};
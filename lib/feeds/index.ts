@@ -0,0 +1,40 @@
+import { createDerivFeed } from "./deriv";
+import { createReplayFeed, type ReplayFeed } from "./replay";
+import { createSimulatorFeed, DEFAULT_SIM_SEED } from "./simulator";
+import type { FeedKind, TickFeed } from "./types";
+
+export * from "./types";
+export { createDerivFeed, DERIV_APP_ID, DERIV_WS_URL } from "./deriv";
+export { createReplayFeed, type ReplayFeed, type ReplayProgress } from "./replay";
+export { createSimulatorFeed, simulateTicks, SIM_MARKETS } from "./simulator";
+
+export const FEED_OPTIONS: { label: string; value: FeedKind }[] = [
+  { label: "Live (Deriv)", value: "deriv" },
+  { label: "Simulator (offline)", value: "sim" },
+  { label: "Replay (recorded)", value: "replay" },
+];
+
+/** Feed used on load; set NEXT_PUBLIC_TICK_FEED=sim to default to the simulator. */
+export const DEFAULT_FEED: FeedKind =
+  process.env.NEXT_PUBLIC_TICK_FEED === "sim" ? "sim" : "deriv";
+
+/** Simulator seed; the browser and the contract engine must agree on it. */
+export const SIM_SEED = Number(process.env.NEXT_PUBLIC_SIM_SEED) || DEFAULT_SIM_SEED;
+
+// One shared instance per kind, so every consumer multiplexes one connection.
+const feeds = new Map<FeedKind, TickFeed>();
+
+export const getFeed = (kind: FeedKind): TickFeed => {
+  if (kind === "replay") return getReplayFeed();
+  let feed = feeds.get(kind);
+  if (!feed) {
+    feed = kind === "sim" ? createSimulatorFeed({ seed: SIM_SEED }) : createDerivFeed();
+    feeds.set(kind, feed);
+  }
+  return feed;
+};
+
+let replay: ReplayFeed | null = null;
+
+/** The shared replay feed, with its playback controls. */
+export const getReplayFeed = (): ReplayFeed => (replay ??= createReplayFeed());
@@ -0,0 +1,130 @@
+import { defaultPipSize } from "@/lib/markets";
+import type {
+  FeedStatus,
+  StatusListener,
+  Tick,
+  TickFeed,
+  TickListener,
+} from "./types";
+
+// ==========================================================
+// Replay feed: plays a recorded session back as if it were live
+// ==========================================================
+// Ticks keep their recorded epochs and are spaced by the recorded gaps,
+// divided by the playback speed. Playback starts once the session's symbol
+// has a subscriber. The feed is "connecting" until a session is loaded,
+// "open" while it plays and "closed" once it has run out.
+
+export type ReplayProgress = { position: number; total: number; speed: number };
+type ProgressListener = (progress: ReplayProgress) => void;
+
+export type ReplayFeed = TickFeed & {
+  /** Start playing `ticks` (sorted by epoch) from the beginning. */
+  load(ticks: Tick[]): void;
+  setSpeed(speed: number): void;
+  progress(): ReplayProgress;
+  /** Register a progress listener; returns a function that removes it. */
+  onProgress(listener: ProgressListener): () => void;
+};
+
+export const createReplayFeed = (): ReplayFeed => {
+  const listeners = new Map<string, Set<TickListener>>();
+  const statusListeners = new Set<StatusListener>();
+  const progressListeners = new Set<ProgressListener>();
+  const pipSizes = new Map<string, number>();
+  let ticks: Tick[] = [];
+  let position = 0;
+  let speed = 1;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let status: FeedStatus = "connecting";
+
+  const setStatus = (next: FeedStatus) => {
+    if (next === status) return;
+    status = next;
+    statusListeners.forEach((l) => l(status));
+  };
+
+  const progress = (): ReplayProgress => ({ position, total: ticks.length, speed });
+  const notifyProgress = () => progressListeners.forEach((l) => l(progress()));
+
+  // Emit the tick at `position`, then wait out the recorded gap to the next one
+  const step = () => {
+    timer = undefined;
+    const tick = ticks[position];
+    if (!tick) return setStatus("closed");
+    pipSizes.set(tick.symbol, tick.pipSize);
+    listeners.get(tick.symbol)?.forEach((l) => l(tick));
+    position += 1;
+    notifyProgress();
+    const next = ticks[position];
+    if (!next) return setStatus("closed");
+    timer = setTimeout(step, ((next.epoch - tick.epoch) * 1000) / speed);
+  };
+
+  const stop = () => {
+    clearTimeout(timer);
+    timer = undefined;
+  };
+
+  const startIfWatched = () => {
+    const first = ticks[0];
+    if (first && position === 0 && timer === undefined && listeners.has(first.symbol))
+      timer = setTimeout(step, 0);
+  };
+
+  return {
+    kind: "replay",
+
+    subscribe(symbol, listener) {
+      const set = listeners.get(symbol) ?? new Set();
+      set.add(listener);
+      listeners.set(symbol, set);
+      startIfWatched();
+    },
+
+    unsubscribe(symbol, listener) {
+      const set = listeners.get(symbol);
+      if (!set) return;
+      set.delete(listener);
+      if (set.size === 0) listeners.delete(symbol);
+    },
+
+    status: () => status,
+
+    onStatus(listener) {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+
+    pipSize: (symbol) => pipSizes.get(symbol) ?? defaultPipSize(symbol),
+
+    load(session) {
+      stop();
+      ticks = [...session].sort((a, b) => a.epoch - b.epoch);
+      position = 0;
+      notifyProgress();
+      if (ticks.length === 0) return setStatus("closed");
+      setStatus("open");
+      startIfWatched();
+    },
+
+    setSpeed(next) {
+      if (!(next > 0)) throw new RangeError(`Bad replay speed: ${next}`);
+      speed = next;
+      notifyProgress(); // takes effect from the next gap
+    },
+
+    progress,
+
+    onProgress(listener) {
+      progressListeners.add(listener);
+      return () => progressListeners.delete(listener);
+    },
+
+    close() {
+      stop();
+      listeners.clear();
+      setStatus("closed");
+    },
+  };
+};
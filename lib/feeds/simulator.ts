@@ -0,0 +1,217 @@
+import { defaultPipSize } from "@/lib/markets";
+import {
+  tickId,
+  type FeedStatus,
+  type StatusListener,
+  type Tick,
+  type TickFeed,
+  type TickListener,
+} from "./types";
+
+// ==========================================================
+// Seeded local tick simulator
+// ==========================================================
+// Quotes are a geometric random walk whose step j only depends on
+// (seed, symbol, j), restarted from `startPrice` at every UTC midnight. Any
+// two simulators with the same seed and config therefore agree on every
+// tick, whenever and wherever they were started.
+
+export type SimMarketConfig = {
+  intervalMs: number;
+  startPrice: number;
+  /** Annualised volatility of the diffusion part (1 = 100%). */
+  volatility: number;
+  /** Log-return added to every tick. */
+  drift: number;
+  /** Occasional jumps, as on Deriv's Crash/Boom indices. */
+  spike?: { direction: "up" | "down"; meanTicks: number; size: number };
+};
+
+export const SIM_MARKETS: Record<string, SimMarketConfig> = {
+  R_100:     { intervalMs: 2000, startPrice: 1000, volatility: 1,   drift: 0 },
+  "1HZ100V": { intervalMs: 1000, startPrice: 1000, volatility: 1,   drift: 0 },
+  CRASH300N: {
+    intervalMs: 1000, startPrice: 3000, volatility: 0.3, drift: 3.3e-5,
+    spike: { direction: "down", meanTicks: 300, size: 0.01 },
+  },
+  BOOM300N: {
+    intervalMs: 1000, startPrice: 3000, volatility: 0.3, drift: -3.3e-5,
+    spike: { direction: "up", meanTicks: 300, size: 0.01 },
+  },
+  RDBULL:    { intervalMs: 2000, startPrice: 9000, volatility: 0.3, drift: 2e-6 },
+  RDBEAR:    { intervalMs: 2000, startPrice: 9000, volatility: 0.3, drift: -2e-6 },
+};
+
+const FALLBACK_MARKET: SimMarketConfig = {
+  intervalMs: 1000,
+  startPrice: 1000,
+  volatility: 1,
+  drift: 0,
+};
+
+export type SimulatorOptions = {
+  seed?: number;
+  /** Per-symbol overrides merged over `SIM_MARKETS`. */
+  markets?: Record<string, Partial<SimMarketConfig>>;
+};
+
+export const DEFAULT_SIM_SEED = 1089;
+
+const SECONDS_PER_YEAR = 365 * 24 * 3600;
+const DAY_MS = 24 * 3600 * 1000;
+
+// ---- stateless PRNG ---- //
+const hashString = (s: string): number => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+/** mulberry32 seeded from the mix of three integers. */
+const rngFor = (a: number, b: number, c: number) => {
+  let t = Math.imul(a ^ Math.imul(b, 0x9e3779b1) ^ Math.imul(c, 0x85ebca6b), 0xc2b2ae35) >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r ^= r + Math.imul(r ^ (r >>> 7), 61 | r);
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const gaussian = (rand: () => number): number =>
+  Math.sqrt(-2 * Math.log(1 - rand())) * Math.cos(2 * Math.PI * rand());
+
+const configFor = (
+  symbol: string,
+  overrides?: SimulatorOptions["markets"],
+): SimMarketConfig => ({
+  ...(SIM_MARKETS[symbol] ?? FALLBACK_MARKET),
+  ...overrides?.[symbol],
+});
+
+/**
+ * Price path of one symbol: returns the price at tick index i
+ * (time / intervalMs), walked from that day's anchor. Successive calls with
+ * increasing i only walk the new steps.
+ */
+const createSimPath = (seed: number, symbol: string, cfg: SimMarketConfig) => {
+  const symbolHash = hashString(symbol);
+  const sigma = cfg.volatility * Math.sqrt(cfg.intervalMs / 1000 / SECONDS_PER_YEAR);
+  let index = -Infinity;
+  let price = cfg.startPrice;
+
+  const step = (j: number, p: number) => {
+    const rand = rngFor(seed, symbolHash, j);
+    let r = cfg.drift + sigma * gaussian(rand);
+    if (cfg.spike && rand() < 1 / cfg.spike.meanTicks) {
+      const jump = cfg.spike.size * (0.5 + rand());
+      r += cfg.spike.direction === "down" ? -jump : jump;
+    }
+    return p * Math.exp(r);
+  };
+
+  return (i: number): number => {
+    const anchor = Math.floor(Math.floor((i * cfg.intervalMs) / DAY_MS) * DAY_MS / cfg.intervalMs);
+    if (index < anchor || index > i) {
+      index = anchor;
+      price = cfg.startPrice;
+    }
+    while (index < i) price = step(++index, price);
+    return price;
+  };
+};
+
+const tickAt = (symbol: string, cfg: SimMarketConfig, price: number, i: number): Tick => {
+  const pipSize = defaultPipSize(symbol);
+  const epoch = Math.floor((i * cfg.intervalMs) / 1000);
+  return {
+    id: tickId(symbol, epoch),
+    symbol,
+    epoch,
+    quote: Number(price.toFixed(pipSize)),
+    pipSize,
+  };
+};
+
+/**
+ * `count` consecutive simulated ticks starting at `startMs`, identical to
+ * what a live simulator feed with the same seed emits at those times.
+ */
+export const simulateTicks = (
+  symbol: string,
+  count: number,
+  { seed = DEFAULT_SIM_SEED, markets, startMs = Date.now() }: SimulatorOptions & { startMs?: number } = {},
+): Tick[] => {
+  const cfg = configFor(symbol, markets);
+  const priceAt = createSimPath(seed, symbol, cfg);
+  const first = Math.ceil(startMs / cfg.intervalMs);
+  return Array.from({ length: count }, (_, n) => tickAt(symbol, cfg, priceAt(first + n), first + n));
+};
+
+/** Create a simulated feed; ticks start as soon as a symbol is subscribed. */
+export const createSimulatorFeed = (options: SimulatorOptions = {}): TickFeed => {
+  const seed = options.seed ?? DEFAULT_SIM_SEED;
+  const listeners = new Map<string, Set<TickListener>>();
+  const statusListeners = new Set<StatusListener>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const paths = new Map<string, (i: number) => number>();
+  let status: FeedStatus = "open";
+
+  const schedule = (symbol: string) => {
+    const cfg = configFor(symbol, options.markets);
+    if (!paths.has(symbol)) paths.set(symbol, createSimPath(seed, symbol, cfg));
+    const now = Date.now();
+    const i = Math.floor(now / cfg.intervalMs) + 1;
+    const timer = setTimeout(() => {
+      const tick = tickAt(symbol, cfg, paths.get(symbol)!(i), i);
+      listeners.get(symbol)?.forEach((l) => l(tick));
+      if (listeners.has(symbol)) schedule(symbol);
+    }, i * cfg.intervalMs - now);
+    timers.set(symbol, timer);
+  };
+
+  const stop = (symbol: string) => {
+    clearTimeout(timers.get(symbol));
+    timers.delete(symbol);
+  };
+
+  return {
+    kind: "sim",
+
+    subscribe(symbol, listener) {
+      const set = listeners.get(symbol) ?? new Set();
+      set.add(listener);
+      listeners.set(symbol, set);
+      if (status !== "open") {
+        status = "open";
+        statusListeners.forEach((l) => l(status));
+      }
+      if (!timers.has(symbol)) schedule(symbol);
+    },
+
+    unsubscribe(symbol, listener) {
+      const set = listeners.get(symbol);
+      if (!set) return;
+      set.delete(listener);
+      if (set.size > 0) return;
+      listeners.delete(symbol);
+      stop(symbol);
+    },
+
+    status: () => status,
+
+    onStatus(listener) {
+      statusListeners.add(listener);
+      return () => statusListeners.delete(listener);
+    },
+
+    pipSize: defaultPipSize,
+
+    close() {
+      listeners.clear();
+      timers.forEach((_, symbol) => stop(symbol));
+      status = "closed";
+      statusListeners.forEach((l) => l(status));
+    },
+  };
+};
@@ -0,0 +1,56 @@
+// ======================
+// Tick feed abstraction
+// ======================
+
+export type Tick = {
+  /** Identifies the tick across deliveries; see `tickId`. */
+  id: string;
+  symbol: string;
+  /** Unix time of the tick, in seconds. */
+  epoch: number;
+  quote: number;
+  pipSize: number;
+};
+
+/**
+ * A symbol ticks at most once per epoch, as on Deriv, so the pair names a
+ * tick: the same quote twice in a row is two ticks, the same tick sent
+ * again after a resubscribe is one.
+ */
+export const tickId = (symbol: string, epoch: number): string => `${symbol}@${epoch}`;
+
+/** Feeds the contract engine can settle against. */
+export type LiveFeedKind = "deriv" | "sim";
+/** `replay` plays a recorded session back in the browser only. */
+export type FeedKind = LiveFeedKind | "replay";
+
+/**
+ * `reconnecting`: the connection dropped and a retry is scheduled.
+ * `stale`: connected, but a subscribed symbol has gone quiet for too long.
+ */
+export type FeedStatus =
+  | "connecting"
+  | "open"
+  | "reconnecting"
+  | "stale"
+  | "closed";
+
+export type TickListener = (tick: Tick) => void;
+export type StatusListener = (status: FeedStatus) => void;
+
+/**
+ * A source of ticks for any number of symbols. Implementations multiplex
+ * all subscriptions over a single connection (or timer) and only start
+ * working once the first listener subscribes.
+ */
+export type TickFeed = {
+  readonly kind: FeedKind;
+  subscribe(symbol: string, listener: TickListener): void;
+  unsubscribe(symbol: string, listener: TickListener): void;
+  status(): FeedStatus;
+  /** Register a status listener; returns a function that removes it. */
+  onStatus(listener: StatusListener): () => void;
+  /** Latest known pip size for `symbol`. */
+  pipSize(symbol: string): number;
+  close(): void;
+};
@@ -0,0 +1,108 @@
+import {
+  CONTRACT_TYPE_OPTIONS,
+  describeSpec,
+  type ContractType,
+} from "@/lib/contract-types";
+import type { Contract, ContractStatus } from "@/lib/contracts";
+import type { Direction } from "@/lib/pricing";
+
+// ==========================================================
+// Bet history: filtering & export
+// ==========================================================
+
+export type HistoryFilter = {
+  symbol?: string;
+  type?: ContractType;
+  /** Only contracts of a type with a direction, betting that way. */
+  direction?: Direction;
+  status?: ContractStatus;
+  /** Inclusive bounds on purchase time, as `YYYY-MM-DD` (UTC). */
+  from?: string;
+  to?: string;
+};
+
+const DAY_MS = 24 * 3600 * 1000;
+
+/** Contract types that bet Higher or Lower than a target. */
+export const DIRECTION_TYPES: ContractType[] = ["sum", "parity"];
+
+/** Read a filter from URL search params, ignoring blank or unknown values. */
+export const parseFilter = (params: URLSearchParams): HistoryFilter => {
+  const get = (k: string) => params.get(k) || undefined;
+  const type = get("type");
+  const direction = get("direction");
+  const status = get("status");
+  return {
+    symbol: get("symbol"),
+    type: CONTRACT_TYPE_OPTIONS.find((o) => o.value === type)?.value,
+    direction: direction === "Higher" || direction === "Lower" ? direction : undefined,
+    status: ["pending", "open", "won", "lost", "void", "sold"].includes(status ?? "")
+      ? (status as ContractStatus)
+      : undefined,
+    from: get("from"),
+    to: get("to"),
+  };
+};
+
+export const filterToParams = (f: HistoryFilter): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(f).forEach(([k, v]) => v && params.set(k, v));
+  return params;
+};
+
+/** Contracts matching `f`, newest first. */
+export const filterContracts = (contracts: Contract[], f: HistoryFilter): Contract[] => {
+  const from = f.from ? Date.parse(f.from) : -Infinity;
+  const to = f.to ? Date.parse(f.to) + DAY_MS : Infinity;
+  return contracts
+    .filter(
+      (c) =>
+        (!f.symbol || c.symbol === f.symbol) &&
+        (!f.type || c.spec.type === f.type) &&
+        (!f.direction || ("direction" in c.spec && c.spec.direction === f.direction)) &&
+        (!f.status || c.status === f.status) &&
+        c.createdAt >= from &&
+        c.createdAt < to,
+    )
+    .sort((a, b) => b.createdAt - a.createdAt);
+};
+
+const iso = (ms: number | null) => (ms === null ? "" : new Date(ms).toISOString());
+
+const CSV_COLUMNS: [string, (c: Contract) => string | number | boolean][] = [
+  ["id", (c) => c.id],
+  ["created_at", (c) => iso(c.createdAt)],
+  ["settled_at", (c) => iso(c.settledAt)],
+  ["symbol", (c) => c.symbol],
+  ["feed", (c) => c.feed],
+  ["duration", (c) => c.duration],
+  ["type", (c) => c.spec.type],
+  ["terms", (c) => describeSpec(c.spec)],
+  ["target", (c) => ("target" in c.spec ? c.spec.target : "")],
+  ["direction", (c) => ("direction" in c.spec ? c.spec.direction : "")],
+  ["allow_equal", (c) => ("allowEqual" in c.spec ? c.spec.allowEqual : "")],
+  ["stake", (c) => c.stake],
+  ["margin", (c) => c.margin],
+  ["probability", (c) => c.probability],
+  ["offered_payout", (c) => c.payout],
+  ["entry_epoch", (c) => c.entry?.epoch ?? ""],
+  ["entry_quote", (c) => c.entry?.quote ?? ""],
+  ["quotes", (c) => c.ticks.map((t) => t.quote).join(" ")],
+  ["epochs", (c) => c.ticks.map((t) => t.epoch).join(" ")],
+  ["digits", (c) => c.digits.join(" ")],
+  ["sum", (c) => c.sum],
+  ["outcome", (c) => c.status],
+  ["sold_for", (c) => c.soldFor ?? ""],
+  ["void_reason", (c) => c.voidReason ?? ""],
+];
+
+const csvCell = (v: string | number | boolean): string => {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (contracts: Contract[]): string =>
+  [
+    CSV_COLUMNS.map(([name]) => name).join(","),
+    ...contracts.map((c) => CSV_COLUMNS.map(([, get]) => csvCell(get(c))).join(",")),
+  ].join("\n") + "\n";
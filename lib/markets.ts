@@ -0,0 +1,46 @@
+// ======================
+// Markets & quote digits
+// ======================
+
+export type Market = {
+  label: string;
+  value: string;
+  /** Decimal places Deriv quotes this symbol at; used until a tick reports `pip_size`. */
+  pipSize: number;
+};
+
+// Available markets for the user to pick
+export const INDEX_OPTIONS: Market[] = [
+  { label: "100 Vol (2 sec) Index ", value: "R_100",     pipSize: 2 },
+  { label: "100 Vol Index",          value: "1HZ100V",   pipSize: 2 },
+  { label: "CRASH 300 Index",        value: "CRASH300N", pipSize: 3 },
+  { label: "BOOM 300 Index",         value: "BOOM300N",  pipSize: 3 },
+  { label: "Bull Index",             value: "RDBULL",    pipSize: 4 },
+  { label: "Bear Index",             value: "RDBEAR",    pipSize: 4 },
+];
+
+export const findMarket = (symbol: string): Market | undefined =>
+  INDEX_OPTIONS.find((o) => o.value === symbol);
+
+/** Pip size for a symbol, falling back to 2 decimals for unknown markets. */
+export const defaultPipSize = (symbol: string): number =>
+  findMarket(symbol)?.pipSize ?? 2;
+
+/**
+ * Render a quote with exactly `pipSize` decimals, the way Deriv displays and
+ * settles it. Strings are padded/truncated textually so no float rounding
+ * can creep in; numbers go through `toFixed`, which rounds from the shortest
+ * decimal representation (123.45 stays "123.45", never "123.44").
+ */
+export const formatQuote = (quote: number | string, pipSize: number): string => {
+  const s = typeof quote === "number" ? quote.toFixed(pipSize) : quote.trim();
+  const [int, frac = ""] = s.split(".");
+  if (pipSize <= 0) return int;
+  return `${int}.${frac.padEnd(pipSize, "0").slice(0, pipSize)}`;
+};
+
+/** Last decimal digit of a quote at the symbol's pip size. */
+export const lastDigit = (quote: number | string, pipSize: number): number => {
+  const s = formatQuote(quote, pipSize);
+  return Number(s[s.length - 1]);
+};
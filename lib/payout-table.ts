@@ -0,0 +1,117 @@
+import {
+  BUST_LIMIT,
+  specWins,
+  type ContractSpec,
+  type ContractType,
+  type SpecOf,
+} from "@/lib/contract-types";
+import type { MarketConfig } from "@/lib/config";
+import { policyQuote, type PolicyQuote, type PricingPolicy } from "@/lib/policy";
+import { pmf } from "@/lib/pricing";
+
+// ==========================================================
+// Payout table: every target of a sum contract at once
+// ==========================================================
+// For the contract types that bet on where the digit sum lands relative to
+// a single target, quote every target the duration allows side by side,
+// and mark which sums win so the distribution can be shaded.
+
+export type TargetSpec = SpecOf<"sum"> | SpecOf<"equals"> | SpecOf<"bust">;
+
+export const hasSumTarget = (spec: { type: string }): spec is TargetSpec =>
+  spec.type === "sum" || spec.type === "equals" || spec.type === "bust";
+
+/** Types whose terms are digit sums, held to the market's target bounds. */
+type BoundedType = TargetSpec["type"] | "range";
+
+export const hasBoundedSum = (spec: { type: string }): spec is TargetSpec | SpecOf<"range"> =>
+  hasSumTarget(spec) || spec.type === "range";
+
+/** Largest target the type accepts on a k-tick contract. */
+const maxTarget = (type: BoundedType, k: number) =>
+  type === "bust" ? Math.min(BUST_LIMIT, 9 * k) : 9 * k;
+
+export type TargetBounds = Pick<MarketConfig, "minTarget" | "maxTarget">;
+
+export type TargetRange = { min: number; max: number };
+
+/**
+ * Targets (or range ends) offered for the type on a k-tick contract: its own
+ * range cut down to the market's bounds, or null if none of them is in bounds.
+ */
+export const targetRange = (
+  type: BoundedType,
+  k: number,
+  bounds?: TargetBounds,
+): TargetRange | null => {
+  const min = bounds?.minTarget ?? 0;
+  const max = Math.min(maxTarget(type, k), bounds?.maxTarget ?? Infinity);
+  return min <= max ? { min, max } : null;
+};
+
+const within = ({ min, max }: TargetRange, n: number) => Math.max(min, Math.min(max, n));
+
+/** `spec` with its target or range ends moved into range, if they were out of it. */
+export const clampToBounds = (spec: ContractSpec, k: number, bounds?: TargetBounds) => {
+  if (!hasBoundedSum(spec)) return spec;
+  const range = targetRange(spec.type, k, bounds);
+  if (!range) return spec;
+  if (spec.type === "range") {
+    const low = within(range, spec.low);
+    const high = within({ min: low, max: range.max }, spec.high);
+    return low === spec.low && high === spec.high ? spec : { ...spec, low, high };
+  }
+  const target = within(range, spec.target);
+  return target === spec.target ? spec : { ...spec, target };
+};
+
+/** Whether `spec` keeps within the market's target bounds on a k-tick contract. */
+export const inBounds = (spec: ContractSpec, k: number, bounds?: TargetBounds): boolean => {
+  if (!hasBoundedSum(spec)) return true;
+  const range = targetRange(spec.type, k, bounds);
+  if (!range) return false;
+  const ends = spec.type === "range" ? [spec.low, spec.high] : [spec.target];
+  return ends.every((n) => n >= range.min && n <= range.max);
+};
+
+/**
+ * Durations on which a contract type can be bought on `market`: some of its
+ * targets must be in bounds, which takes more ticks the higher the minimum.
+ */
+export const offeredDurations = (market: MarketConfig, type: ContractType): TargetRange | null => {
+  const max = market.maxDuration;
+  if (!hasBoundedSum({ type })) return { min: market.minDuration, max };
+  for (let k = market.minDuration; k <= max; k++)
+    if (targetRange(type as BoundedType, k, market)) return { min: k, max };
+  return null;
+};
+
+/**
+ * Whether a digit sum of `sum` wins the contract. These types look only at
+ * the sum, so a single "digit" holding the whole sum settles them the same.
+ */
+export const winsAtSum = (spec: TargetSpec, sum: number): boolean => specWins(spec, [sum]);
+
+export type PayoutRow = PolicyQuote & { target: number };
+
+/** The spec quoted under `policy` at every target the market offers. */
+export const payoutTable = (
+  policy: PricingPolicy,
+  stake: number,
+  spec: TargetSpec,
+  k: number,
+  bounds?: TargetBounds,
+): PayoutRow[] => {
+  const range = targetRange(spec.type, k, bounds);
+  if (!range) return [];
+  return Array.from({ length: range.max - range.min + 1 }, (_, i) => ({
+    target: range.min + i,
+    ...policyQuote(policy, stake, { ...spec, target: range.min + i }, k),
+  }));
+};
+
+export type SumBar = { sum: number; p: number; win: boolean };
+
+/** Distribution of the k-digit sum, each sum marked by whether it wins. */
+export const sumDistribution = (spec: TargetSpec, k: number): SumBar[] =>
+  pmf(k).map((p, sum) => ({ sum, p, win: winsAtSum(spec, sum) }));
@@ -0,0 +1,80 @@
+import { quoteSpec, specProb, type ContractSpec } from "@/lib/contract-types";
+
+// ==========================================================
+// Pricing policy: operator limits & dynamic margin
+// ==========================================================
+// The server prices every contract under the policy and refuses quotes that
+// break it; the page applies the same rules to show why before anyone buys.
+
+export type PricingPolicy = {
+  /** Quotes below this win probability are refused. */
+  minProbability: number;
+  /** Largest offered payout as a multiple of the stake. */
+  maxPayoutMultiplier: number;
+  /** Largest amount the house can lose on one contract (payout - stake). */
+  maxLiability: number;
+  minStake: number;
+  maxStake: number;
+  /** Margin = base + probabilityMargin·(1 - p) + durationMargin·(k - 1), capped at maxMargin. */
+  baseMargin: number;
+  probabilityMargin: number;
+  durationMargin: number;
+  maxMargin: number;
+};
+
+export const DEFAULT_POLICY: PricingPolicy = {
+  minProbability: 0.01,
+  maxPayoutMultiplier: 50,
+  maxLiability: 2500,
+  minStake: 0.35,
+  maxStake: 500,
+  baseMargin: 0.03,
+  probabilityMargin: 0.04,
+  durationMargin: 0.0005,
+  maxMargin: 0.15,
+};
+
+/** Margin charged on a contract that wins with probability p over k ticks. */
+export const marginFor = (policy: PricingPolicy, p: number, k: number): number =>
+  Math.min(
+    policy.maxMargin,
+    policy.baseMargin + policy.probabilityMargin * (1 - p) + policy.durationMargin * (k - 1),
+  );
+
+export type PolicyQuote = {
+  p: number;
+  margin: number;
+  fair: number;
+  offered: number;
+  /** Why the policy refuses this contract, or null if it may be bought. */
+  rejection: string | null;
+};
+
+const pct = (x: number) => `${+(x * 100).toFixed(4)}%`;
+
+/** Quote a contract under `policy`, with the reason it is refused, if any. */
+export const policyQuote = (
+  policy: PricingPolicy,
+  stake: number,
+  spec: ContractSpec,
+  k: number,
+): PolicyQuote => {
+  const margin = marginFor(policy, specProb(spec, k), k);
+  const q = { ...quoteSpec(stake, spec, k, margin), margin };
+
+  const rejection =
+    !(stake >= policy.minStake && stake <= policy.maxStake)
+      ? `Stake must be between $${policy.minStake.toFixed(2)} and $${policy.maxStake.toFixed(2)}`
+      : q.p <= 0
+        ? "This contract can never win"
+        : q.p < policy.minProbability
+          ? `Win probability ${pct(q.p)} is below the ${pct(policy.minProbability)} minimum`
+          : q.offered > stake * policy.maxPayoutMultiplier
+            ? `Payout $${q.offered.toFixed(2)} exceeds ${policy.maxPayoutMultiplier}× the stake`
+            : q.offered - stake > policy.maxLiability
+              ? `Payout would put $${(q.offered - stake).toFixed(2)} at risk, ` +
+                `over the $${policy.maxLiability.toFixed(2)} limit per contract`
+              : null;
+
+  return { ...q, rejection };
+};
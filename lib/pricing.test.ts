@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  F_k,
+  P_k_n,
+  inclusionExclusion,
+  outcomeProbs,
+  prob,
+  type Direction,
+} from "@/lib/pricing";
+
+// ==========================================================
+// Sum-of-digits distribution against brute-force enumeration
+// ==========================================================
+// Every digit sequence of up to 5 ticks is enumerated outright; longer ones
+// are split into two enumerated halves whose sum counts are convolved, which
+// still counts every one of the 10^k sequences exactly (10^10 fits a double).
+
+const DURATIONS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+/** counts[n] = number of k-digit sequences summing to n, by listing them all. */
+const listAll = (k: number): number[] => {
+  const counts = new Array<number>(9 * k + 1).fill(0);
+  const digits = new Array<number>(k).fill(0);
+  for (let seq = 0; seq < 10 ** k; seq++) {
+    let s = seq;
+    for (let i = 0; i < k; i++) {
+      digits[i] = s % 10;
+      s = Math.floor(s / 10);
+    }
+    counts[digits.reduce((a, d) => a + d, 0)] += 1;
+  }
+  return counts;
+};
+
+const enumerate = (k: number): number[] => {
+  if (k <= 5) return listAll(k);
+  const a = listAll(5);
+  const b = listAll(k - 5);
+  const counts = new Array<number>(9 * k + 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => (counts[i + j] += x * y)));
+  return counts;
+};
+
+const COUNTS = new Map(DURATIONS.map((k) => [k, enumerate(k)]));
+
+/** Brute-force P(S_k satisfies `win`). */
+const bruteProb = (k: number, win: (n: number) => boolean) =>
+  COUNTS.get(k)!.reduce((a, c, n) => (win(n) ? a + c : a), 0) / 10 ** k;
+
+const targets = (k: number) => Array.from({ length: 9 * k + 1 }, (_, n) => n);
+
+describe("enumeration", () => {
+  it("covers all 10^k sequences", () => {
+    for (const k of DURATIONS)
+      expect(COUNTS.get(k)!.reduce((a, c) => a + c, 0)).toBe(10 ** k);
+  });
+});
+
+describe("P_k_n", () => {
+  it("matches enumeration for every duration and target", () => {
+    for (const k of DURATIONS)
+      for (const n of targets(k))
+        expect(P_k_n(k, n)).toBeCloseTo(bruteProb(k, (s) => s === n), 15);
+  });
+
+  it("is zero outside 0..9k", () => {
+    for (const k of DURATIONS) {
+      expect(P_k_n(k, -1)).toBe(0);
+      expect(P_k_n(k, 9 * k + 1)).toBe(0);
+    }
+  });
+});
+
+describe("F_k", () => {
+  it("matches enumeration for every duration and target", () => {
+    for (const k of DURATIONS)
+      for (const n of targets(k))
+        expect(F_k(k, n)).toBeCloseTo(bruteProb(k, (s) => s <= n), 15);
+  });
+});
+
+describe("inclusionExclusion", () => {
+  it("matches enumeration for every duration and target", () => {
+    for (const k of DURATIONS)
+      for (const n of targets(k))
+        expect(inclusionExclusion(k, n)).toBeCloseTo(bruteProb(k, (s) => s === n), 12);
+  });
+});
+
+describe("prob", () => {
+  const rules: [Direction, boolean, (s: number, n: number) => boolean][] = [
+    ["Higher", false, (s, n) => s > n],
+    ["Higher", true, (s, n) => s >= n],
+    ["Lower", false, (s, n) => s < n],
+    ["Lower", true, (s, n) => s <= n],
+  ];
+
+  it.each(rules)("%s (equal counts: %s) matches enumeration", (dir, eq, wins) => {
+    for (const k of DURATIONS)
+      for (const n of targets(k))
+        expect(prob(k, n, dir, eq)).toBeCloseTo(bruteProb(k, (s) => wins(s, n)), 15);
+  });
+});
+
+describe("outcomeProbs", () => {
+  it("sums to 1 and matches enumeration", () => {
+    for (const k of DURATIONS)
+      for (const n of targets(k)) {
+        const { higher, lower, equal } = outcomeProbs(k, n);
+        expect(higher + lower + equal).toBeCloseTo(1, 14);
+        expect(higher).toBeCloseTo(bruteProb(k, (s) => s > n), 15);
+        expect(lower).toBeCloseTo(bruteProb(k, (s) => s < n), 15);
+        expect(equal).toBeCloseTo(bruteProb(k, (s) => s === n), 15);
+      }
+  });
+});
@@ -0,0 +1,222 @@
+// ==========================================================
+// Distribution of the sum of k last digits & contract pricing
+// ==========================================================
+// Every tick contributes a last digit assumed i.i.d. uniform on 0–9, so the
+// sum S_k of k digits ranges over 0..9k. All prices below are derived from
+// the distribution of S_k.
+
+export type Direction = "Higher" | "Lower";
+
+/** Binomial coefficient C(n, r); 0 outside the valid range. */
+export const comb = (n: number, r: number): number => {
+  if (r < 0 || r > n) return 0;
+  r = Math.min(r, n - r);
+  let num = 1;
+  let denom = 1;
+  for (let i = 1; i <= r; i++) {
+    num *= n - r + i;
+    denom *= i;
+  }
+  return num / denom;
+};
+
+/**
+ * P(S_k = n) by inclusion–exclusion over digits that would exceed 9.
+ * Evaluated in floating point: the alternating terms cancel badly once k
+ * grows past ~10, so this is kept only as a cross-check for `P_k_n`.
+ */
+export const inclusionExclusion = (k: number, n: number): number => {
+  if (n < 0 || n > 9 * k) return 0;
+  let sum = 0;
+  for (let j = 0; j <= Math.floor(n / 10); j++) {
+    const term =
+      (j % 2 === 0 ? 1 : -1) *
+      comb(k, j) *
+      comb(n - 10 * j + k - 1, k - 1);
+    sum += term;
+  }
+  return sum / 10 ** k;
+};
+
+// ----------------------
+// Exact engine
+// ----------------------
+// Counts of digit sequences are kept as BigInt and built by convolving the
+// uniform digit distribution one tick at a time, so probabilities are exact
+// rationals over 10^k for any duration.
+
+/** Longest contract duration the app offers. */
+export const MAX_DURATION = 50;
+
+export type Rational = { num: bigint; den: bigint };
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+
+// ways[k][n] = number of k-digit sequences summing to n
+const ways: bigint[][] = [[BigInt(1)]];
+// cumWays[k][n] = number of k-digit sequences summing to at most n
+const cumWays: bigint[][] = [[BigInt(1)]];
+
+const waysFor = (k: number): bigint[] => {
+  if (!Number.isInteger(k) || k < 0)
+    throw new RangeError(`duration must be a non-negative integer: ${k}`);
+  for (let i = ways.length; i <= k; i++) {
+    const prev = ways[i - 1];
+    const next: bigint[] = [];
+    let window = ZERO; // sum of prev[n-9..n]
+    for (let n = 0; n <= 9 * i; n++) {
+      if (n < prev.length) window += prev[n];
+      if (n - 10 >= 0) window -= prev[n - 10];
+      next.push(window);
+    }
+    ways.push(next);
+    let acc = ZERO;
+    cumWays.push(next.map((w) => (acc += w)));
+  }
+  return ways[k];
+};
+
+/** 10^k, the number of equally likely k-digit sequences. */
+const outcomes = (k: number): bigint => TEN ** BigInt(k);
+
+/** Exact P(S_k = n). */
+export const exactPmf = (k: number, n: number): Rational => {
+  const w = waysFor(k);
+  return { num: n < 0 || n > 9 * k ? ZERO : w[n], den: outcomes(k) };
+};
+
+/** Exact P(S_k <= n). */
+export const exactCdf = (k: number, n: number): Rational => {
+  waysFor(k);
+  const den = outcomes(k);
+  if (n < 0) return { num: ZERO, den };
+  return { num: n >= 9 * k ? den : cumWays[k][n], den };
+};
+
+const complement = ({ num, den }: Rational): Rational => ({ num: den - num, den });
+
+const bitLength = (x: bigint): number => x.toString(2).length;
+
+/** Nearest double to a non-negative rational, without overflowing on huge terms. */
+export const toNumber = ({ num, den }: Rational): number => {
+  if (num === ZERO) return 0;
+  const shift = Math.max(0, bitLength(den) - bitLength(num) + 64);
+  return Number((num << BigInt(shift)) / den) / 2 ** shift;
+};
+
+/** P(S_k = n). */
+export const P_k_n = (k: number, n: number): number => toNumber(exactPmf(k, n));
+
+/** P(S_k <= n). */
+export const F_k = (k: number, n: number): number => toNumber(exactCdf(k, n));
+
+// ----------------------
+// Whole-distribution API
+// ----------------------
+
+/** PMF of S_k as an array indexed by sum (length 9k + 1). */
+export const pmf = (k: number): number[] =>
+  Array.from({ length: 9 * k + 1 }, (_, n) => P_k_n(k, n));
+
+/** CDF of S_k as an array indexed by sum (length 9k + 1). */
+export const cdf = (k: number): number[] =>
+  Array.from({ length: 9 * k + 1 }, (_, n) => F_k(k, n));
+
+/** Smallest sum n with P(S_k <= n) >= q. */
+export const quantile = (k: number, q: number): number => {
+  if (q < 0 || q > 1) throw new RangeError(`quantile level out of range: ${q}`);
+  const c = cdf(k);
+  const i = c.findIndex((v) => v >= q - 1e-12);
+  return i === -1 ? 9 * k : i;
+};
+
+/** E[S_k]; a single digit has mean 4.5. */
+export const mean = (k: number): number => 4.5 * k;
+
+/** Var[S_k]; a single digit has variance 8.25. */
+export const variance = (k: number): number => 8.25 * k;
+
+// ----------------------
+// Contract probabilities
+// ----------------------
+
+/** Exact win probability of "sum Higher/Lower than n", optionally counting n itself. */
+export const exactProb = (
+  k: number,
+  n: number,
+  dir: Direction,
+  eq: boolean,
+): Rational => {
+  if (dir === "Higher")
+    return complement(eq ? exactCdf(k, n - 1) : exactCdf(k, n));
+  // dir === "Lower"
+  return eq ? exactCdf(k, n) : exactCdf(k, n - 1);
+};
+
+/** Win probability of "sum Higher/Lower than n", optionally counting n itself. */
+export const prob = (k: number, n: number, dir: Direction, eq: boolean): number =>
+  toNumber(exactProb(k, n, dir, eq));
+
+/** Exact probability that S_k satisfies `win`, for rules other than a one-sided target. */
+export const probWhere = (k: number, win: (n: number) => boolean): number => {
+  const w = waysFor(k);
+  let num = ZERO;
+  w.forEach((count, n) => {
+    if (win(n)) num += count;
+  });
+  return toNumber({ num, den: outcomes(k) });
+};
+
+/** Higher / Lower / Equal probabilities for a target; they sum to 1. */
+export const outcomeProbs = (k: number, n: number) => {
+  const lower = exactCdf(k, n - 1);
+  const equal = exactPmf(k, n);
+  const higher = complement(exactCdf(k, n));
+  return {
+    higher: toNumber(higher),
+    lower: toNumber(lower),
+    equal: toNumber(equal),
+  } as const;
+};
+
+// ----------------------
+// Payouts
+// ----------------------
+
+/** Payout for a win probability p, after taking `margin` off the stake. */
+export const payoutFor = (stake: number, p: number, margin = 0): number =>
+  p > 0 ? parseFloat(((stake * (1 - margin)) / p).toFixed(2)) : 0;
+
+/**
+ * Price at which the house buys back a contract paying `payout` that now
+ * wins with probability p: its fair value, less `margin`.
+ */
+export const sellPriceFor = (payout: number, p: number, margin = 0): number =>
+  parseFloat((payout * p * (1 - margin)).toFixed(2));
+
+export const payout = (
+  stake: number,
+  k: number,
+  n: number,
+  dir: Direction,
+  eq: boolean,
+  margin = 0,
+): number => payoutFor(stake, prob(k, n, dir, eq), margin);
+
+/** Quoted terms shown before a bet: probability, fair and offered payouts. */
+export const quote = (
+  stake: number,
+  k: number,
+  n: number,
+  dir: Direction,
+  eq: boolean,
+  margin: number,
+) => {
+  const p = prob(k, n, dir, eq);
+  return {
+    p,
+    fair: payoutFor(stake, p, 0),
+    offered: payoutFor(stake, p, margin),
+  };
+};
@@ -0,0 +1,263 @@
+import { parseSpec, specProb, specWins, type ContractSpec } from "@/lib/contract-types";
+import type { Contract, SettledStatus } from "@/lib/contracts";
+import type { LiveFeedKind } from "@/lib/feeds/types";
+import { lastDigit } from "@/lib/markets";
+import { payoutFor, sellPriceFor } from "@/lib/pricing";
+
+// ==========================================================
+// Contract receipts: signed, hash-chained, checkable by anyone
+// ==========================================================
+// Every settled contract gets a receipt holding everything needed to redo
+// its pricing and settlement: the terms, the quote, and the exact ticks it
+// settled on. The server signs each receipt with an ECDSA P-256 key, and
+// each receipt carries the hash of the one before it, so the receipts of a
+// wallet form a chain from which none can be dropped or altered unnoticed.
+// Hashing and signing use WebCrypto, which the browser and the server share.
+
+export const RECEIPT_VERSION = 1;
+
+/** `prevHash` of the first receipt in a chain. */
+export const GENESIS_HASH = "0".repeat(64);
+
+export type ReceiptTick = { epoch: number; quote: number };
+
+export type ReceiptBody = {
+  version: number;
+  /** Position in the chain, from 0. */
+  seq: number;
+  /** `hash` of the previous receipt, or `GENESIS_HASH`. */
+  prevHash: string;
+  contractId: string;
+  symbol: string;
+  feed: LiveFeedKind;
+  duration: number;
+  spec: ContractSpec;
+  stake: number;
+  margin: number;
+  /** Win probability and payout quoted at purchase. */
+  probability: number;
+  payout: number;
+  /** Decimal places of the quotes, which fix their last digits. */
+  pipSize: number;
+  entry: ReceiptTick | null;
+  ticks: ReceiptTick[];
+  digits: number[];
+  sum: number;
+  outcome: SettledStatus;
+  soldFor: number | null;
+  voidReason: string | null;
+  createdAt: number;
+  settledAt: number;
+};
+
+export type Receipt = {
+  body: ReceiptBody;
+  /** SHA-256 of the canonical body, hex. */
+  hash: string;
+  /** ECDSA P-256 / SHA-256 signature of the canonical body, base64. */
+  signature: string;
+};
+
+export const SIGNING_ALGORITHM = { name: "ECDSA", namedCurve: "P-256" } as const;
+const SIGN_PARAMS = { name: "ECDSA", hash: "SHA-256" } as const;
+
+/** The receipt body of a settled contract, as link `seq` of a chain. */
+export const receiptBody = (
+  c: Contract & { status: SettledStatus },
+  seq: number,
+  prevHash: string,
+): ReceiptBody => {
+  const spot = (t: { epoch: number; quote: number }): ReceiptTick => ({
+    epoch: t.epoch,
+    quote: t.quote,
+  });
+  return {
+    version: RECEIPT_VERSION,
+    seq,
+    prevHash,
+    contractId: c.id,
+    symbol: c.symbol,
+    feed: c.feed,
+    duration: c.duration,
+    spec: c.spec,
+    stake: c.stake,
+    margin: c.margin,
+    probability: c.probability,
+    payout: c.payout,
+    pipSize: c.entry?.pipSize ?? c.ticks[0]?.pipSize ?? 0,
+    entry: c.entry && spot(c.entry),
+    ticks: c.ticks.map(spot),
+    digits: c.digits,
+    sum: c.sum,
+    outcome: c.status,
+    soldFor: c.soldFor,
+    voidReason: c.voidReason,
+    createdAt: c.createdAt,
+    settledAt: c.settledAt ?? 0,
+  };
+};
+
+// ---- encoding ---- //
+
+/** JSON with object keys sorted at every level, so equal bodies hash equally. */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const bytesOf = (body: ReceiptBody) => new TextEncoder().encode(canonicalJson(body));
+
+const toHex = (buf: ArrayBuffer) =>
+  Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, "0")).join("");
+
+const toBase64 = (buf: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buf)));
+
+const fromBase64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+export const hashBody = async (body: ReceiptBody): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", bytesOf(body)));
+
+export const signBody = async (body: ReceiptBody, privateKey: CryptoKey): Promise<Receipt> => ({
+  body,
+  hash: await hashBody(body),
+  signature: toBase64(await crypto.subtle.sign(SIGN_PARAMS, privateKey, bytesOf(body))),
+});
+
+// ---- verification ---- //
+
+export type ReceiptCheck = { name: string; ok: boolean; detail: string };
+
+const same = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a));
+
+const check = (name: string, ok: boolean, detail: string): ReceiptCheck => ({ name, ok, detail });
+
+/**
+ * Redo a receipt's pricing and settlement from its terms and ticks: the
+ * digits, their sum, the quoted probability and payout, and the outcome.
+ */
+export const recomputeReceipt = (body: ReceiptBody): ReceiptCheck[] => {
+  const { spec, duration, stake, margin, pipSize, entry, ticks } = body;
+  const digits = ticks.map((t) => lastDigit(t.quote, pipSize));
+  const sum = digits.reduce((a, d) => a + d, 0);
+  const p = specProb(spec, duration);
+  const payout = payoutFor(stake, p, margin);
+  const epochs = [entry, ...ticks].map((t) => t?.epoch ?? NaN);
+  const ordered = entry
+    ? epochs.every((e, i) => i === 0 || e > epochs[i - 1])
+    : ticks.length === 0;
+
+  const checks = [
+    check(
+      "Ticks follow the entry",
+      ordered,
+      entry ? `entry at ${entry.epoch}, then ${ticks.length} ticks` : "no entry tick",
+    ),
+    check("Digits", digits.join() === body.digits.join(), `last digits are ${digits.join(" ")}`),
+    check("Sum", sum === body.sum, `digits sum to ${sum}`),
+    check("Probability", same(p, body.probability), `recomputed ${p}`),
+    check("Payout", same(payout, body.payout), `recomputed $${payout.toFixed(2)}`),
+  ];
+
+  if (body.outcome === "won" || body.outcome === "lost") {
+    const won = ticks.length === duration && specWins(spec, digits);
+    checks.push(
+      check(
+        "Outcome",
+        ticks.length === duration && (won ? "won" : "lost") === body.outcome,
+        ticks.length === duration
+          ? `${duration} ticks ${won ? "win" : "lose"}`
+          : `${ticks.length} of ${duration} ticks`,
+      ),
+    );
+  } else if (body.outcome === "sold") {
+    const price = sellPriceFor(body.payout, specProb(spec, duration, digits), margin);
+    checks.push(
+      check(
+        "Sale price",
+        ticks.length < duration && body.soldFor !== null && same(price, body.soldFor),
+        `worth $${price.toFixed(2)} after ${ticks.length} ticks`,
+      ),
+    );
+  } else {
+    checks.push(
+      check("Void", ticks.length < duration, body.voidReason ?? "voided, stake refunded"),
+    );
+  }
+  return checks;
+};
+
+/** Short SHA-256 fingerprint of a public key, for comparing keys by eye. */
+export const keyFingerprint = async ({ kty, crv, x, y }: JsonWebKey): Promise<string> =>
+  toHex(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJson({ kty, crv, x, y }))),
+  )
+    .slice(0, 32)
+    .replace(/(.{4})(?!$)/g, "$1:");
+
+export const importPublicKey = (jwk: JsonWebKey): Promise<CryptoKey> =>
+  crypto.subtle.importKey("jwk", jwk, SIGNING_ALGORITHM, true, ["verify"]);
+
+/** Check a receipt's hash and signature under `publicKey`, then redo its settlement. */
+export const verifyReceipt = async (
+  receipt: Receipt,
+  publicKey: CryptoKey,
+): Promise<ReceiptCheck[]> => {
+  const hash = await hashBody(receipt.body);
+  let signed = false;
+  try {
+    signed = await crypto.subtle.verify(
+      SIGN_PARAMS,
+      publicKey,
+      fromBase64(receipt.signature),
+      bytesOf(receipt.body),
+    );
+  } catch {
+    // A signature that is not even base64 is simply invalid
+  }
+  return [
+    check("Hash", hash === receipt.hash, `SHA-256 ${hash.slice(0, 16)}…`),
+    check("Signature", signed, signed ? "signed by the app's key" : "not signed by the app's key"),
+    ...recomputeReceipt(receipt.body),
+  ];
+};
+
+/** Check that consecutive receipts link up: each names the hash of the one before. */
+export const verifyChain = (receipts: Receipt[]): ReceiptCheck[] =>
+  receipts.slice(1).map((r, i) => {
+    const prev = receipts[i];
+    return check(
+      `Link ${prev.body.seq} → ${r.body.seq}`,
+      r.body.seq === prev.body.seq + 1 && r.body.prevHash === prev.hash,
+      r.body.prevHash === prev.hash ? "hash matches" : "hash does not match",
+    );
+  });
+
+/** Validate pasted JSON as one receipt or a list of them; throws a RangeError. */
+export const parseReceipts = (json: unknown): Receipt[] => {
+  const list = Array.isArray(json) ? json : [json];
+  if (list.length === 0) throw new RangeError("No receipts given");
+  list.forEach((r, i) => {
+    const x = r as Partial<Receipt> | null;
+    if (
+      typeof x?.hash !== "string" ||
+      typeof x.signature !== "string" ||
+      typeof x.body !== "object" ||
+      x.body === null ||
+      x.body.version !== RECEIPT_VERSION ||
+      !Array.isArray(x.body.ticks)
+    )
+      throw new RangeError(`Receipt ${i + 1} is not a version ${RECEIPT_VERSION} receipt`);
+    try {
+      parseSpec(x.body.spec, x.body.duration);
+    } catch (e) {
+      throw new RangeError(`Receipt ${i + 1}: ${(e as Error).message}`);
+    }
+  });
+  return list as Receipt[];
+};
@@ -0,0 +1,143 @@
+import { tickId, type LiveFeedKind, type Tick } from "@/lib/feeds/types";
+
+// ==========================================================
+// Tick recorder: every tick the browser sees, kept in IndexedDB
+// ==========================================================
+// A session is one uninterrupted subscription to a symbol on a feed. Its
+// ticks can be exported as a JSON array of `Tick`s, the format the
+// backtester reads, and played back through the replay feed.
+
+/** Where a session came from: recorded off a feed, or imported from a file. */
+export type SessionSource = LiveFeedKind | "file";
+
+export type RecordedSession = {
+  id: number;
+  source: SessionSource;
+  symbol: string;
+  /** Epochs (seconds) of the first and last recorded tick. */
+  startEpoch: number;
+  endEpoch: number;
+  count: number;
+};
+
+const DB_NAME = "blackjack-ticks";
+const DB_VERSION = 1;
+
+let db: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> =>
+  (db ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore("sessions", { keyPath: "id", autoIncrement: true });
+      req.result.createObjectStore("ticks", { keyPath: ["sessionId", "epoch"] });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+const done = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const committed = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/** All ticks of one session, keyed [sessionId, epoch]. */
+const sessionRange = (id: number) => IDBKeyRange.bound([id, -Infinity], [id, Infinity]);
+
+// ---- writing ---- //
+
+export const createSession = async (
+  source: SessionSource,
+  symbol: string,
+  ticks: Tick[],
+): Promise<RecordedSession> => {
+  const tx = (await openDb()).transaction(["sessions", "ticks"], "readwrite");
+  const sorted = [...ticks].sort((a, b) => a.epoch - b.epoch);
+  const session = {
+    source,
+    symbol,
+    startEpoch: sorted[0]?.epoch ?? 0,
+    endEpoch: sorted[sorted.length - 1]?.epoch ?? 0,
+    count: sorted.length,
+  };
+  const id = (await done(tx.objectStore("sessions").add(session))) as number;
+  sorted.forEach((tick) => tx.objectStore("ticks").put({ ...tick, sessionId: id }));
+  await committed(tx);
+  return { id, ...session };
+};
+
+/** Add a tick to `session`, updating its bounds in the same transaction. */
+export const appendTick = async (session: RecordedSession, tick: Tick): Promise<void> => {
+  const tx = (await openDb()).transaction(["sessions", "ticks"], "readwrite");
+  tx.objectStore("ticks").put({ ...tick, sessionId: session.id });
+  session.startEpoch = session.count ? session.startEpoch : tick.epoch;
+  session.endEpoch = tick.epoch;
+  session.count += 1;
+  tx.objectStore("sessions").put(session);
+  await committed(tx);
+};
+
+export const deleteSession = async (id: number): Promise<void> => {
+  const tx = (await openDb()).transaction(["sessions", "ticks"], "readwrite");
+  tx.objectStore("sessions").delete(id);
+  tx.objectStore("ticks").delete(sessionRange(id));
+  await committed(tx);
+};
+
+// ---- reading ---- //
+
+/** Recorded sessions, newest first. */
+export const listSessions = async (): Promise<RecordedSession[]> => {
+  const tx = (await openDb()).transaction("sessions");
+  const sessions = await done(tx.objectStore("sessions").getAll());
+  return (sessions as RecordedSession[]).filter((s) => s.count > 0).reverse();
+};
+
+export const loadTicks = async (id: number): Promise<Tick[]> => {
+  const tx = (await openDb()).transaction("ticks");
+  const rows = await done(tx.objectStore("ticks").getAll(sessionRange(id)));
+  return (rows as (Tick & { sessionId: number })[]).map(
+    ({ symbol, epoch, quote, pipSize }) => ({ id: tickId(symbol, epoch), symbol, epoch, quote, pipSize }),
+  );
+};
+
+// ---- import / export ---- //
+
+const isTick = (t: unknown): t is Tick => {
+  const x = t as Partial<Tick> | null;
+  return (
+    typeof x?.symbol === "string" &&
+    Number.isFinite(x.epoch) &&
+    Number.isFinite(x.quote) &&
+    Number.isInteger(x.pipSize)
+  );
+};
+
+/** Validate an exported session (a JSON array of ticks of one symbol). */
+export const parseTicks = (json: unknown): Tick[] => {
+  if (!Array.isArray(json) || json.length === 0)
+    throw new Error("expected a non-empty JSON array of ticks");
+  const bad = json.findIndex((t) => !isTick(t));
+  if (bad >= 0) throw new Error(`tick ${bad} needs symbol, epoch, quote and pipSize`);
+  const ticks = json as Tick[];
+  if (ticks.some((t) => t.symbol !== ticks[0].symbol))
+    throw new Error("a session holds ticks of a single symbol");
+  return ticks.map(({ symbol, epoch, quote, pipSize }) => ({
+    id: tickId(symbol, epoch),
+    symbol,
+    epoch,
+    quote,
+    pipSize,
+  }));
+};
+
+export const sessionFileName = (s: RecordedSession) =>
+  `ticks-${s.symbol}-${new Date(s.startEpoch * 1000).toISOString().replace(/[:.]/g, "-")}.json`;
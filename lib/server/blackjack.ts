@@ -0,0 +1,201 @@
+import { randomUUID } from "crypto";
+import {
+  BLACKJACK_RULES,
+  handTotal,
+  quoteBlackjack,
+  settleHand,
+  type BlackjackGame,
+  type BlackjackOrder,
+  type GamePhase,
+} from "@/lib/blackjack";
+import { marketConfig } from "@/lib/config";
+import { lastDigit } from "@/lib/markets";
+import type { FeedStatus, Tick } from "@/lib/feeds";
+import { getConfig } from "./config";
+import { getServerFeed } from "./feeds";
+import { HttpError } from "./http";
+import { singleton } from "./singleton";
+import { loadJson, saveJson } from "./store";
+import { creditPayout, debitStake, refundStake } from "./wallet";
+
+// ==========================================================
+// Blackjack engine: deals from the feed, waits on the player
+// ==========================================================
+
+/** Rejected deal, a move out of turn, or an unknown game. */
+export class BlackjackError extends HttpError {
+  name = "BlackjackError";
+}
+
+type GameListener = (game: BlackjackGame) => void;
+
+const persist = (games: Map<string, BlackjackGame>) =>
+  saveJson("blackjack", [...games.values()]);
+
+// Games cut short by a restart are voided and refunded, like contracts
+const restore = (): Map<string, BlackjackGame> => {
+  const games = new Map<string, BlackjackGame>();
+  let voided = false;
+  for (const g of loadJson<BlackjackGame[]>("blackjack", [])) {
+    if (g.phase !== "settled") {
+      refundStake(g.stake, g.id);
+      g.phase = "settled";
+      g.result = "void";
+      g.voidReason = "Server restarted mid-game";
+      g.settledAt = Date.now();
+      voided = true;
+    }
+    games.set(g.id, g);
+  }
+  if (voided) persist(games);
+  return games;
+};
+
+const engine = singleton("blackjack", () => ({
+  games: restore(),
+  watchers: new Map<string, Set<GameListener>>(),
+}));
+
+// Phases in which the game is waiting for the feed's next tick
+const DRAWING: GamePhase[] = ["dealing", "hitting", "dealer"];
+const FEED_LOST: FeedStatus[] = ["reconnecting", "stale", "closed"];
+
+const update = (id: string, patch: Partial<BlackjackGame>): BlackjackGame => {
+  const prev = engine.games.get(id)!;
+  const next = { ...prev, ...patch };
+  engine.games.set(id, next);
+  if (next.phase !== prev.phase) persist(engine.games);
+  engine.watchers.get(id)?.forEach((l) => l(next));
+  return next;
+};
+
+/** Validate an untrusted request body into a deal on an open market. */
+export const parseDeal = (body: unknown): BlackjackOrder => {
+  const { symbol, feed, stake } = (body ?? {}) as Record<string, unknown>;
+  const { policy } = getConfig();
+  const market = typeof symbol === "string" ? marketConfig(getConfig(), symbol) : undefined;
+  if (typeof symbol !== "string" || !market)
+    throw new BlackjackError(`Unknown market: ${String(symbol)}`);
+  if (!market.enabled) throw new BlackjackError(`${market.label} is closed for trading`);
+  if (feed !== "deriv" && feed !== "sim")
+    throw new BlackjackError(`Unknown feed: ${String(feed)}`);
+  if (typeof stake !== "number" || !(stake >= policy.minStake && stake <= policy.maxStake))
+    throw new BlackjackError(
+      `Stake must be between $${policy.minStake.toFixed(2)} and $${policy.maxStake.toFixed(2)}`,
+    );
+  return { symbol, feed, stake };
+};
+
+/**
+ * Deal a game: the stake is debited and the next ticks on the feed are the
+ * player's opening cards. A win pays the fair multiplier for optimal play
+ * less the policy's base margin, so a perfect player still pays the margin.
+ */
+export const dealGame = (order: BlackjackOrder): BlackjackGame => {
+  const rules = BLACKJACK_RULES;
+  const { payout } = quoteBlackjack(rules, order.stake, getConfig().policy.baseMargin);
+  const id = randomUUID();
+  debitStake(order.stake, id);
+  const game: BlackjackGame = {
+    ...order,
+    id,
+    rules,
+    payout,
+    phase: "dealing",
+    player: [],
+    dealer: [],
+    ticks: [],
+    result: null,
+    voidReason: null,
+    createdAt: Date.now(),
+    settledAt: null,
+  };
+  engine.games.set(id, game);
+  persist(engine.games);
+
+  const feed = getServerFeed(order.feed);
+
+  const finish = (patch: Partial<BlackjackGame>) => {
+    feed.unsubscribe(order.symbol, onTick);
+    offStatus();
+    if (patch.result === "won") creditPayout(payout, id);
+    if (patch.result === "push" || patch.result === "void") refundStake(order.stake, id);
+    update(id, { ...patch, phase: "settled", settledAt: Date.now() });
+  };
+
+  // Ticks arriving while the player decides are not cards
+  const onTick = (tick: Tick) => {
+    const g = engine.games.get(id)!;
+    if (!DRAWING.includes(g.phase)) return;
+    const last = g.ticks[g.ticks.length - 1];
+    if (last && tick.epoch <= last.epoch) return; // the same tick sent again
+    const card = lastDigit(tick.quote, tick.pipSize);
+    const ticks = [...g.ticks, tick];
+
+    if (g.phase === "dealer") {
+      const dealer = [...g.dealer, card];
+      const next = update(id, { dealer, ticks });
+      if (handTotal(dealer) >= rules.dealerStandsOn)
+        finish({ result: settleHand(rules, next.player, dealer) });
+      return;
+    }
+
+    const player = [...g.player, card];
+    const dealt = g.phase === "hitting" || player.length >= rules.initialCards;
+    // A full hand stands on its own
+    const full = player.length >= rules.maxCards;
+    update(id, { player, ticks, phase: full ? "dealer" : dealt ? "player" : "dealing" });
+    if (handTotal(player) > rules.bustLimit) finish({ result: "lost" });
+  };
+
+  const offStatus = feed.onStatus((s) => {
+    if (FEED_LOST.includes(s) && DRAWING.includes(engine.games.get(id)!.phase))
+      finish({ result: "void", voidReason: `Feed ${s} mid-game` });
+  });
+  feed.subscribe(order.symbol, onTick);
+
+  return engine.games.get(id)!;
+};
+
+export const getGame = (id: string): BlackjackGame => {
+  const g = engine.games.get(id);
+  if (!g) throw new BlackjackError(`No such game: ${id}`, 404);
+  return g;
+};
+
+/** Games not yet settled, oldest first. */
+export const openGames = (): BlackjackGame[] =>
+  [...engine.games.values()].filter((g) => g.phase !== "settled");
+
+const awaitingPlayer = (id: string): BlackjackGame => {
+  const g = getGame(id);
+  if (g.phase !== "player")
+    throw new BlackjackError(
+      g.phase === "settled" ? "This game is over" : "Wait for the card being drawn",
+      409,
+    );
+  return g;
+};
+
+/** Take the next tick's digit as a card. */
+export const hit = (id: string): BlackjackGame => {
+  awaitingPlayer(id);
+  return update(id, { phase: "hitting" });
+};
+
+/** Stop drawing; the dealer draws from the next ticks. */
+export const stand = (id: string): BlackjackGame => {
+  awaitingPlayer(id);
+  return update(id, { phase: "dealer" });
+};
+
+/** Call `listener` on every change to game `id`; returns an unsubscribe. */
+export const watchGame = (id: string, listener: GameListener) => {
+  const set = engine.watchers.get(id) ?? new Set();
+  set.add(listener);
+  engine.watchers.set(id, set);
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) engine.watchers.delete(id);
+  };
+};
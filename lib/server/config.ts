@@ -0,0 +1,48 @@
+import { parseConfig, withDefaults, type AppConfig } from "@/lib/config";
+import type { PricingPolicy } from "@/lib/policy";
+import { HttpError } from "./http";
+import { singleton } from "./singleton";
+import { loadJson, saveJson } from "./store";
+
+/** Rejected config edit, or a caller without the admin token. */
+export class ConfigError extends HttpError {
+  name = "ConfigError";
+}
+
+// Before the admin console, operators could only override the pricing
+// policy by hand in `DATA_DIR/policy.json`; start from that if present.
+const restore = (): AppConfig =>
+  withDefaults(
+    loadJson<Parameters<typeof withDefaults>[0]>("config", {
+      policy: loadJson<Partial<PricingPolicy>>("policy", {}),
+    }),
+  );
+
+const store = singleton("config", () => ({ current: restore() }));
+
+/** Markets and pricing policy in force. */
+export const getConfig = (): AppConfig => store.current;
+
+/**
+ * Edits must carry `ADMIN_TOKEN` as `Authorization: Bearer <token>`; with no
+ * token set the config is read-only.
+ */
+export const checkAdmin = (req: Request): void => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) throw new ConfigError("Config edits are off: set ADMIN_TOKEN on the server", 403);
+  if (req.headers.get("authorization") !== `Bearer ${token}`)
+    throw new ConfigError("Admin token required", 401);
+};
+
+/** Validate and store a whole new config; running contracts keep their terms. */
+export const updateConfig = (body: unknown): AppConfig => {
+  let next: AppConfig;
+  try {
+    next = parseConfig(body);
+  } catch (e) {
+    throw new ConfigError((e as Error).message);
+  }
+  saveJson("config", next);
+  store.current = next;
+  return next;
+};
@@ -0,0 +1,258 @@
+import { randomUUID } from "crypto";
+import { liveQuote, parseSpec, specWins } from "@/lib/contract-types";
+import { isSettled, type Contract, type ContractOrder } from "@/lib/contracts";
+import { filterContracts, type HistoryFilter } from "@/lib/history";
+import { isIntIn, marketConfig } from "@/lib/config";
+import { lastDigit } from "@/lib/markets";
+import type { Direction } from "@/lib/pricing";
+import { tickId, type FeedStatus, type Tick } from "@/lib/feeds";
+import { getServerFeed } from "./feeds";
+import { hasBoundedSum, inBounds, targetRange } from "@/lib/payout-table";
+import { policyQuote } from "@/lib/policy";
+import { HttpError } from "./http";
+import { getConfig } from "./config";
+import { issueReceipt } from "./receipts";
+import { singleton } from "./singleton";
+import { loadJson, saveJson } from "./store";
+import { creditPayout, creditSale, debitStake, refundStake } from "./wallet";
+
+// ==========================================================
+// Contract engine: buys, collects ticks & settles server-side
+// ==========================================================
+
+/** Rejected purchase or unknown contract. */
+export class ContractError extends HttpError {
+  name = "ContractError";
+}
+
+type ContractListener = (contract: Contract) => void;
+
+const persist = (contracts: Map<string, Contract>) =>
+  saveJson("contracts", [...contracts.values()]);
+
+// Contracts stored before contract types existed were all target-sum bets
+type LegacyContract = Omit<Contract, "spec"> & {
+  target: number;
+  direction: Direction;
+  allowEqual: boolean;
+};
+
+// ...and their ticks were stored without ids
+const withId = (t: Tick): Tick => ({ ...t, id: t.id ?? tickId(t.symbol, t.epoch) });
+
+const upgrade = (legacy: Contract | LegacyContract): Contract => {
+  const c = {
+    ...legacy,
+    entry: legacy.entry && withId(legacy.entry),
+    ticks: legacy.ticks.map(withId),
+  };
+  if ("spec" in c) return { ...c, soldFor: c.soldFor ?? null };
+  const { target, direction, allowEqual, ...rest } = c;
+  return { ...rest, spec: { type: "sum", target, direction, allowEqual }, soldFor: null };
+};
+
+// Contracts still running when the server stopped missed their ticks, so
+// they are voided on startup under the same policy as a dropped feed.
+const restore = (): Map<string, Contract> => {
+  const contracts = new Map<string, Contract>();
+  let voided = false;
+  for (const c of loadJson<(Contract | LegacyContract)[]>("contracts", []).map(upgrade)) {
+    if (isSettled(c)) {
+      contracts.set(c.id, c);
+      continue;
+    }
+    refundStake(c.stake, c.id);
+    const settled: Contract = {
+      ...c,
+      status: "void",
+      voidReason: "Server restarted mid-contract",
+      settledAt: Date.now(),
+    };
+    contracts.set(c.id, settled);
+    void issueReceipt(settled);
+    voided = true;
+  }
+  if (voided) persist(contracts);
+  return contracts;
+};
+
+const engine = singleton("contracts", () => ({
+  contracts: restore(),
+  /** Listeners to every contract, e.g. the portfolio stream. */
+  portfolioWatchers: new Set<ContractListener>(),
+  /** Settles a running contract early, e.g. when it is sold back. */
+  closers: new Map<string, (patch: Partial<Contract>) => void>(),
+}));
+
+// Statuses that mean ticks may have been missed while a contract was running
+const FEED_LOST: FeedStatus[] = ["reconnecting", "stale", "closed"];
+
+const notify = (c: Contract) => engine.portfolioWatchers.forEach((l) => l(c));
+
+const update = (id: string, patch: Partial<Contract>): Contract => {
+  const prev = engine.contracts.get(id)!;
+  const next = { ...prev, ...patch };
+  engine.contracts.set(id, next);
+  if (next.status !== prev.status) persist(engine.contracts);
+  notify(next);
+  return next;
+};
+
+/**
+ * Validate an untrusted request body into a contract order on a market,
+ * duration and contract type the operator config currently offers.
+ */
+export const parseOrder = (body: unknown): ContractOrder => {
+  const b = (body ?? {}) as Record<string, unknown>;
+  const { symbol, feed, duration, stake } = b;
+
+  const market = typeof symbol === "string" ? marketConfig(getConfig(), symbol) : undefined;
+  if (typeof symbol !== "string" || !market)
+    throw new ContractError(`Unknown market: ${String(symbol)}`);
+  if (!market.enabled) throw new ContractError(`${market.label} is closed for trading`);
+  if (feed !== "deriv" && feed !== "sim")
+    throw new ContractError(`Unknown feed: ${String(feed)}`);
+  if (!isIntIn(duration, market.minDuration, market.maxDuration))
+    throw new ContractError(
+      `Duration must be ${market.minDuration}–${market.maxDuration} ticks on ${market.label}`,
+    );
+  let spec;
+  try {
+    spec = parseSpec(b.spec, duration);
+  } catch (e) {
+    throw new ContractError((e as Error).message);
+  }
+  if (!market.contractTypes.includes(spec.type))
+    throw new ContractError(`${market.label} does not offer this contract type`);
+  if (hasBoundedSum(spec)) {
+    const range = targetRange(spec.type, duration, market);
+    if (!range)
+      throw new ContractError(
+        `${market.label} offers no ${duration}-tick targets for this contract type`,
+      );
+    if (!inBounds(spec, duration, market))
+      throw new ContractError(`Targets must be ${range.min}–${range.max} on ${market.label}`);
+  }
+  if (typeof stake !== "number" || !(stake > 0))
+    throw new ContractError("Stake must be positive");
+
+  return { symbol, feed, duration, spec, stake };
+};
+
+/**
+ * Buy a contract priced under the pricing policy, which may refuse it: the
+ * stake is debited from the wallet, the next tick on the feed is its entry
+ * spot and the last digits of the k ticks after it settle it under the
+ * contract type's rule. If the feed drops or goes stale before then, the
+ * contract is voided and the stake refunded.
+ */
+export const openContract = (order: ContractOrder): Contract => {
+  const { p, margin, offered, rejection } = policyQuote(
+    getConfig().policy,
+    order.stake,
+    order.spec,
+    order.duration,
+  );
+  if (rejection) throw new ContractError(rejection);
+  const terms = { ...order, margin };
+
+  const id = randomUUID();
+  debitStake(terms.stake, id);
+  const contract: Contract = {
+    ...terms,
+    id,
+    status: "pending",
+    probability: p,
+    payout: offered,
+    createdAt: Date.now(),
+    entry: null,
+    ticks: [],
+    digits: [],
+    sum: 0,
+    settledAt: null,
+    voidReason: null,
+    soldFor: null,
+  };
+  engine.contracts.set(id, contract);
+  persist(engine.contracts);
+  notify(contract);
+
+  const feed = getServerFeed(terms.feed);
+
+  const finish = (patch: Partial<Contract>) => {
+    feed.unsubscribe(terms.symbol, onTick);
+    offStatus();
+    engine.closers.delete(id);
+    if (patch.status === "won") creditPayout(offered, id);
+    if (patch.status === "void") refundStake(terms.stake, id);
+    if (patch.status === "sold") creditSale(patch.soldFor!, id);
+    void issueReceipt(update(id, { ...patch, settledAt: Date.now() }));
+  };
+
+  const onTick = (tick: Tick) => {
+    const c = engine.contracts.get(id)!;
+    if (isSettled(c)) return;
+    // A tick sent again (e.g. on resubscribe) is not a new one
+    const last = c.ticks[c.ticks.length - 1] ?? c.entry;
+    if (last && tick.epoch <= last.epoch) return;
+    if (c.status === "pending") {
+      update(id, { status: "open", entry: tick });
+      return;
+    }
+    const digits = [...c.digits, lastDigit(tick.quote, tick.pipSize)];
+    const sum = c.sum + digits[digits.length - 1];
+    const next = update(id, { ticks: [...c.ticks, tick], digits, sum });
+    if (digits.length === next.duration)
+      finish({ status: specWins(next.spec, digits) ? "won" : "lost" });
+  };
+
+  const offStatus = feed.onStatus((s) => {
+    if (FEED_LOST.includes(s) && !isSettled(engine.contracts.get(id)!))
+      finish({ status: "void", voidReason: `Feed ${s} mid-contract` });
+  });
+  feed.subscribe(terms.symbol, onTick);
+  engine.closers.set(id, finish);
+
+  return engine.contracts.get(id)!;
+};
+
+/**
+ * Sell a running contract back to the house at its live price: the fair
+ * value of the remaining ticks less the margin it was bought at. If
+ * `minPrice` is given and the price has since dropped below it, the sale
+ * is refused so the player can look at the new price first.
+ */
+export const sellContract = (id: string, minPrice?: unknown): Contract => {
+  const c = getContract(id);
+  const close = engine.closers.get(id);
+  if (c.status !== "open" || !close)
+    throw new ContractError("Only a running contract can be sold", 409);
+  const { sellPrice } = liveQuote(c);
+  if (sellPrice <= 0) throw new ContractError("This contract can no longer win", 409);
+  if (typeof minPrice === "number" && sellPrice < minPrice)
+    throw new ContractError(`The price moved to $${sellPrice.toFixed(2)}`, 409);
+  close({ status: "sold", soldFor: sellPrice });
+  return engine.contracts.get(id)!;
+};
+
+export const getContract = (id: string): Contract => {
+  const c = engine.contracts.get(id);
+  if (!c) throw new ContractError(`No such contract: ${id}`, 404);
+  return c;
+};
+
+/** Every contract ever bought that matches `filter`, newest first. */
+export const listContracts = (filter: HistoryFilter = {}): Contract[] =>
+  filterContracts([...engine.contracts.values()], filter);
+
+/** Contracts not yet settled, oldest first. */
+export const openContracts = (): Contract[] =>
+  [...engine.contracts.values()].filter((c) => !isSettled(c));
+
+/** Call `listener` on every change to any contract; returns an unsubscribe. */
+export const watchContracts = (listener: ContractListener) => {
+  engine.portfolioWatchers.add(listener);
+  return () => {
+    engine.portfolioWatchers.delete(listener);
+  };
+};
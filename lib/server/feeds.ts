@@ -0,0 +1,23 @@
+import NodeWebSocket from "ws";
+import {
+  createDerivFeed,
+  createSimulatorFeed,
+  SIM_SEED,
+  type LiveFeedKind,
+  type TickFeed,
+} from "@/lib/feeds";
+import { singleton } from "./singleton";
+
+/**
+ * Shared server-side feed of each kind, used to settle contracts. The
+ * simulator uses the browser's seed, so both sides see identical ticks.
+ */
+export const getServerFeed = (kind: LiveFeedKind): TickFeed =>
+  singleton(`feed:${kind}`, () =>
+    kind === "sim"
+      ? createSimulatorFeed({ seed: SIM_SEED })
+      : createDerivFeed({
+          WebSocketImpl:
+            globalThis.WebSocket ?? (NodeWebSocket as unknown as typeof WebSocket),
+        }),
+  );
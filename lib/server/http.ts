@@ -0,0 +1,75 @@
+/** An error a route handler should answer with `status` and its message. */
+export class HttpError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/** Turn an `HttpError` into a JSON error response; anything else is rethrown. */
+export const errorResponse = (e: unknown): Response => {
+  if (e instanceof HttpError)
+    return Response.json({ error: e.message }, { status: e.status });
+  throw e;
+};
+
+/** Parse a JSON request body, rejecting malformed input with a 400. */
+export const readJson = async (req: Request): Promise<unknown> => {
+  try {
+    return await req.json();
+  } catch {
+    throw new HttpError("Request body must be JSON");
+  }
+};
+
+/** Send one server-sent event: a plain message, or an `event` of that name. */
+export type SendEvent = (data: unknown, event?: string) => void;
+
+/**
+ * A server-sent event stream. `start` begins sending and returns its
+ * cleanup, which runs once the client goes away or `start` calls `end()`.
+ */
+export const eventStream = (
+  req: Request,
+  start: (send: SendEvent, end: () => void) => () => void,
+): Response => {
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream({
+    start(controller) {
+      let open = true;
+      let cleanup: (() => void) | undefined;
+      const onAbort = () => end();
+      stop = () => {
+        if (!open) return;
+        open = false;
+        req.signal.removeEventListener("abort", onAbort);
+        cleanup?.();
+      };
+      const end = () => {
+        if (!open) return;
+        stop();
+        controller.close();
+      };
+      const send: SendEvent = (data, event) => {
+        if (!open) return;
+        const head = event ? `event: ${event}\n` : "";
+        controller.enqueue(encoder.encode(`${head}data: ${JSON.stringify(data)}\n\n`));
+      };
+      req.signal.addEventListener("abort", onAbort);
+      const dispose = start(send, end);
+      // `start` may already have ended the stream, before its cleanup existed
+      if (open) cleanup = dispose;
+      else dispose();
+    },
+    cancel: () => stop(),
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+};
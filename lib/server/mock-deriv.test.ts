@@ -0,0 +1,428 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import NodeWebSocket from "ws";
+import { afterAll, afterEach, describe, expect, it, vi } from "vitest";
+import type { ContractSpec } from "@/lib/contract-types";
+import type { Contract } from "@/lib/contracts";
+import {
+  createDerivClient,
+  type DerivAccount,
+  type DerivClient,
+  type DerivOpenContract,
+  type DerivProposal,
+  type DerivPurchase,
+} from "@/lib/deriv/api";
+import { createDerivFeed, type FeedStatus, type Tick, type TickFeed } from "@/lib/feeds";
+import { startMockDeriv, type MockDerivOptions, type MockDerivServer } from "./mock-deriv";
+
+// ==========================================================
+// Betting flow against the mock Deriv server
+// ==========================================================
+// Every scenario starts its own mock on a free port with a scripted R_100:
+// each quote ends in 5 (pip size 2), repeated quotes included, so the
+// digits and sums a contract settles on are known in advance.
+
+const WebSocketImpl = NodeWebSocket as unknown as typeof WebSocket;
+const SYMBOL = "R_100";
+const QUOTES = [100.25, 100.35, 100.35, 100.45];
+const TICK_MS = 50;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Resolve once `done()` holds, checking every few milliseconds. */
+const until = async (done: () => boolean, timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!done()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await sleep(10);
+  }
+};
+
+const tmpRoot = fs.mkdtempSync(path.join(os.tmpdir(), "mock-deriv-test-"));
+const cleanups: (() => unknown)[] = [];
+
+const startMock = async (options: MockDerivOptions = {}) => {
+  const mock: MockDerivServer = await startMockDeriv({
+    port: 0,
+    script: { [SYMBOL]: QUOTES },
+    intervalMs: TICK_MS,
+    ...options,
+  });
+  cleanups.push(() => mock.close());
+  return { mock, url: `ws://localhost:${mock.port}` };
+};
+
+const openFeed = (url: string) => {
+  const feed = createDerivFeed({ url, WebSocketImpl, initialBackoffMs: 50 });
+  cleanups.push(() => feed.close());
+  return feed;
+};
+
+/** Collect `n` ticks of SYMBOL from `feed`. */
+const collect = async (feed: TickFeed, n: number): Promise<Tick[]> => {
+  const ticks: Tick[] = [];
+  const listener = (t: Tick) => ticks.push(t);
+  feed.subscribe(SYMBOL, listener);
+  await until(() => ticks.length >= n);
+  feed.unsubscribe(SYMBOL, listener);
+  return ticks;
+};
+
+afterEach(async () => {
+  for (const cleanup of cleanups.splice(0).reverse()) await cleanup();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => fs.rmSync(tmpRoot, { recursive: true, force: true }));
+
+// ---- tick feed ---- //
+
+describe("createDerivFeed", () => {
+  it("streams the scripted ticks, repeated quotes included", async () => {
+    const { url } = await startMock();
+    const ticks = await collect(openFeed(url), 8);
+
+    expect(ticks.map((t) => t.quote)).toEqual([...QUOTES, ...QUOTES]);
+    expect(ticks.every((t) => t.symbol === SYMBOL && t.pipSize === 2)).toBe(true);
+    expect(new Set(ticks.map((t) => t.id)).size).toBe(ticks.length);
+  });
+
+  it("reconnects after a drop with epochs still increasing", async () => {
+    const { url } = await startMock({ faults: { dropAfterTicks: 3 } });
+    const feed = openFeed(url);
+    const statuses: FeedStatus[] = [];
+    feed.onStatus((s) => statuses.push(s));
+    // Every connection drops after 3 ticks, so the 5th arrives on the second one
+    const ticks = await collect(feed, 5);
+
+    expect(statuses).toContain("reconnecting");
+    expect(statuses[statuses.length - 1]).toBe("open");
+    ticks.slice(1).forEach((t, i) => expect(t.epoch).toBeGreaterThan(ticks[i].epoch));
+  });
+
+  it("forgets a stream left before its first tick", async () => {
+    const { url } = await startMock();
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    const feed = openFeed(url);
+    const listener = () => {};
+    feed.subscribe(SYMBOL, listener);
+    await until(() => feed.status() === "open");
+    feed.unsubscribe(SYMBOL, listener);
+    await sleep(TICK_MS * 3);
+
+    // Still subscribed on the server, this would be refused as AlreadySubscribed
+    expect(await collect(feed, 2)).toHaveLength(2);
+    expect(errors).not.toHaveBeenCalled();
+  });
+
+  it("skips malformed frames and keeps streaming", async () => {
+    const { url } = await startMock({ faults: { malformedEvery: 2 } });
+    const errors = vi.spyOn(console, "error").mockImplementation(() => {});
+    const ticks = await collect(openFeed(url), 3);
+
+    expect(ticks).toHaveLength(3);
+    expect(errors).toHaveBeenCalledWith("Deriv sent malformed JSON", expect.any(String));
+  });
+});
+
+describe("mock server", () => {
+  it("answers malformed JSON with a Deriv error", async () => {
+    const { url } = await startMock();
+    const ws = new NodeWebSocket(url);
+    cleanups.push(() => ws.terminate());
+    await new Promise((r) => ws.once("open", r));
+    const reply = new Promise<{ error?: { code: string } }>((r) =>
+      ws.once("message", (raw) => r(JSON.parse(String(raw)))),
+    );
+    ws.send("{ not json");
+
+    expect((await reply).error?.code).toBe("InputValidationFailed");
+  });
+});
+
+// ---- trading API client ---- //
+
+describe("createDerivClient", () => {
+  const PROPOSAL = {
+    proposal: 1,
+    amount: 1,
+    basis: "stake",
+    contract_type: "DIGITODD",
+    currency: "USD",
+    duration: 2,
+    duration_unit: "t",
+    symbol: SYMBOL,
+  };
+
+  const connect = (url: string) => {
+    const client = createDerivClient({ url, WebSocketImpl, timeoutMs: 2000 });
+    cleanups.push(() => client.close());
+    return client;
+  };
+
+  /** Send `payload` and take the `key` field of the reply. */
+  const ask = async <T>(client: DerivClient, payload: object, key: string) =>
+    (await client.request(payload))[key] as T;
+
+  it("authorizes, prices, buys and follows a contract to settlement", async () => {
+    const { url } = await startMock({ tokens: ["demo-token"], balance: 100 });
+    const client = connect(url);
+
+    const authorize = await ask<DerivAccount>(client, { authorize: "demo-token" }, "authorize");
+    expect(authorize.balance).toBe(100);
+
+    const proposal = await ask<DerivProposal>(client, PROPOSAL, "proposal");
+    expect(proposal.ask_price).toBe(1);
+    expect(proposal.payout).toBeCloseTo(1.9, 2);
+
+    const buy = await ask<DerivPurchase>(
+      client,
+      { buy: proposal.id, price: proposal.ask_price },
+      "buy",
+    );
+    expect(buy.balance_after).toBe(99);
+
+    // Every scripted digit is odd, so DIGITODD wins
+    const updates: DerivOpenContract[] = [];
+    const errors: Error[] = [];
+    client.subscribe(
+      { proposal_open_contract: 1, contract_id: buy.contract_id },
+      (msg) => updates.push(msg.proposal_open_contract as DerivOpenContract),
+      (e) => errors.push(e),
+    );
+    await until(() => updates.some((c) => c.status === "won"));
+    expect(errors).toEqual([]);
+  });
+
+  it("rejects bad tokens and unauthorized buys with Deriv's error codes", async () => {
+    const { url } = await startMock({ tokens: ["demo-token"] });
+    const client = connect(url);
+
+    await expect(client.request({ authorize: "wrong" })).rejects.toMatchObject({
+      code: "InvalidToken",
+    });
+    const proposal = await ask<DerivProposal>(client, PROPOSAL, "proposal");
+    await expect(client.request({ buy: proposal.id, price: 1 })).rejects.toMatchObject({
+      code: "AuthorizationRequired",
+    });
+  });
+});
+
+// ---- contract engine ---- //
+
+type Server = {
+  contracts: typeof import("./contracts");
+  wallet: typeof import("./wallet");
+  receipts: typeof import("./receipts");
+  feeds: typeof import("./feeds");
+};
+
+/**
+ * Fresh server modules trading on the mock at `url`: the Deriv URL and the
+ * data directory are read at import, and feeds, wallet and contracts live
+ * in process-wide singletons, so all of them are reset first.
+ */
+const loadServer = async (url: string): Promise<Server> => {
+  delete (globalThis as { __blackjackSingletons?: unknown }).__blackjackSingletons;
+  process.env.NEXT_PUBLIC_DERIV_WS_URL = url;
+  process.env.DATA_DIR = fs.mkdtempSync(path.join(tmpRoot, "data-"));
+  vi.resetModules();
+  const server = {
+    contracts: await import("./contracts"),
+    wallet: await import("./wallet"),
+    receipts: await import("./receipts"),
+    feeds: await import("./feeds"),
+  };
+  cleanups.push(async () => {
+    server.feeds.getServerFeed("deriv").close();
+    await server.receipts.listReceipts(); // let pending receipts finish signing
+  });
+  return server;
+};
+
+const sumOver = (target: number, direction: "Higher" | "Lower"): ContractSpec => ({
+  type: "sum",
+  target,
+  direction,
+  allowEqual: false,
+});
+
+const ORDER = { symbol: SYMBOL, feed: "deriv" as const, stake: 10 };
+
+/** Resolve with contract `id` once `done` holds for it. */
+const waitFor = (server: Server, id: string, done: (c: Contract) => boolean, timeoutMs = 5000) =>
+  until(() => done(server.contracts.getContract(id)), timeoutMs).then(() =>
+    server.contracts.getContract(id),
+  );
+
+describe("contract engine", () => {
+  it.each([
+    ["won", "Higher"],
+    ["lost", "Lower"],
+  ] as const)("settles %s on the scripted digits", async (outcome, direction) => {
+    const { url } = await startMock();
+    const server = await loadServer(url);
+    const start = server.wallet.getWallet().balance;
+
+    const opened = server.contracts.openContract({
+      ...ORDER,
+      duration: 3,
+      spec: sumOver(12, direction),
+    });
+    expect(opened.status).toBe("pending");
+    expect(server.wallet.getWallet().balance).toBe(start - 10);
+
+    const c = await waitFor(server, opened.id, (c) => c.status === outcome);
+    expect(c.digits).toEqual([5, 5, 5]);
+    expect(c.sum).toBe(15);
+    expect(c.ticks.map((t) => t.epoch)).toEqual([...c.ticks.map((t) => t.epoch)].sort());
+    expect(server.wallet.getWallet().balance).toBeCloseTo(
+      start - 10 + (outcome === "won" ? c.payout : 0),
+      2,
+    );
+    expect((await server.receipts.getReceipt(c.id)).body.outcome).toBe(outcome);
+  });
+
+  it("voids and refunds a contract when the feed drops", async () => {
+    const { url } = await startMock({ faults: { dropAfterTicks: 2 } });
+    const server = await loadServer(url);
+    const start = server.wallet.getWallet().balance;
+
+    const { id } = server.contracts.openContract({
+      ...ORDER,
+      duration: 5,
+      spec: sumOver(12, "Higher"),
+    });
+    const c = await waitFor(server, id, (c) => c.status === "void");
+
+    expect(c.voidReason).toBe("Feed reconnecting mid-contract");
+    expect(c.ticks.length).toBeLessThan(5);
+    expect(server.wallet.getWallet().balance).toBe(start);
+  });
+
+  it("voids and refunds a contract when the feed stalls", { timeout: 20_000 }, async () => {
+    const { url } = await startMock({ faults: { stallAfterTicks: 2 } });
+    const server = await loadServer(url);
+    const start = server.wallet.getWallet().balance;
+
+    const { id } = server.contracts.openContract({
+      ...ORDER,
+      duration: 5,
+      spec: sumOver(12, "Higher"),
+    });
+    // The server feed calls a symbol stale after 10s without a tick
+    const c = await waitFor(server, id, (c) => c.status === "void", 15_000);
+
+    expect(c.voidReason).toBe("Feed stale mid-contract");
+    expect(server.wallet.getWallet().balance).toBe(start);
+  });
+
+  it("sells a running contract back at its live price", async () => {
+    const { url } = await startMock();
+    const server = await loadServer(url);
+    const start = server.wallet.getWallet().balance;
+
+    const { id } = server.contracts.openContract({
+      ...ORDER,
+      duration: 5,
+      spec: sumOver(12, "Higher"),
+    });
+    await waitFor(server, id, (c) => c.digits.length >= 1);
+    const c = server.contracts.sellContract(id);
+
+    expect(c.status).toBe("sold");
+    expect(c.soldFor).toBeGreaterThan(0);
+    expect(server.wallet.getWallet().balance).toBeCloseTo(start - 10 + c.soldFor!, 2);
+    expect(() => server.contracts.sellContract(id)).toThrow("Only a running contract can be sold");
+  });
+});
+
+// ---- route handlers ---- //
+
+type Routes = {
+  contracts: typeof import("@/app/api/contracts/route");
+  contract: typeof import("@/app/api/contracts/[id]/route");
+  wallet: typeof import("@/app/api/wallet/route");
+};
+
+/** The API routes over fresh server modules trading on the mock at `url`. */
+const loadRoutes = async (url: string): Promise<Routes> => {
+  await loadServer(url);
+  return {
+    contracts: await import("@/app/api/contracts/route"),
+    contract: await import("@/app/api/contracts/[id]/route"),
+    wallet: await import("@/app/api/wallet/route"),
+  };
+};
+
+const post = (routes: Routes, order: unknown) =>
+  routes.contracts.POST(
+    new Request("http://localhost/api/contracts", {
+      method: "POST",
+      body: JSON.stringify(order),
+    }),
+  );
+
+const fetchContract = async (routes: Routes, id: string): Promise<Contract> =>
+  (
+    await routes.contract.GET(new Request(`http://localhost/api/contracts/${id}`), {
+      params: Promise.resolve({ id }),
+    })
+  ).json();
+
+const fetchBalance = async (routes: Routes): Promise<number> =>
+  (await (await routes.wallet.GET()).json()).balance;
+
+/** Poll the contract route until `done` holds for contract `id`. */
+const pollFor = async (routes: Routes, id: string, done: (c: Contract) => boolean) => {
+  let c = await fetchContract(routes, id);
+  const deadline = Date.now() + 5000;
+  while (!done(c)) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting, contract is ${c.status}`);
+    await sleep(20);
+    c = await fetchContract(routes, id);
+  }
+  return c;
+};
+
+describe("route handlers", () => {
+  it("places and settles a contract through the API", async () => {
+    const { url } = await startMock();
+    const routes = await loadRoutes(url);
+    const start = await fetchBalance(routes);
+
+    const res = await post(routes, { ...ORDER, duration: 3, spec: sumOver(12, "Higher") });
+    expect(res.status).toBe(201);
+    const opened: Contract = await res.json();
+    expect(opened.status).toBe("pending");
+    expect(await fetchBalance(routes)).toBe(start - 10);
+
+    const c = await pollFor(routes, opened.id, (c) => c.status === "won");
+    expect(c.sum).toBe(15);
+    expect(await fetchBalance(routes)).toBeCloseTo(start - 10 + c.payout, 2);
+  });
+
+  it("voids and refunds through the API when the feed drops", async () => {
+    const { url } = await startMock({ faults: { dropAfterTicks: 2 } });
+    const routes = await loadRoutes(url);
+    const start = await fetchBalance(routes);
+
+    const res = await post(routes, { ...ORDER, duration: 5, spec: sumOver(12, "Higher") });
+    const { id }: Contract = await res.json();
+    const c = await pollFor(routes, id, (c) => c.status === "void");
+
+    expect(c.voidReason).toBe("Feed reconnecting mid-contract");
+    expect(await fetchBalance(routes)).toBe(start);
+  });
+
+  it("refuses an order the market does not offer", async () => {
+    const { url } = await startMock();
+    const routes = await loadRoutes(url);
+    const start = await fetchBalance(routes);
+
+    const res = await post(routes, { ...ORDER, duration: 1, spec: sumOver(12, "Higher") });
+    expect(res.status).toBe(400);
+    expect(await fetchBalance(routes)).toBe(start);
+  });
+});
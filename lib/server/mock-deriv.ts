@@ -0,0 +1,436 @@
+import { randomUUID } from "crypto";
+import { WebSocketServer, type WebSocket } from "ws";
+import { createSimulatorFeed, DEFAULT_SIM_SEED } from "@/lib/feeds/simulator";
+import { tickId, type Tick } from "@/lib/feeds";
+import { defaultPipSize, findMarket, formatQuote, lastDigit } from "@/lib/markets";
+
+// ==========================================================
+// Mock Deriv API server for offline & fault-injection testing
+// ==========================================================
+// Speaks the subset of the Deriv WebSocket protocol the app uses: `ticks`
+// streams with `forget`/`forget_all` and `ping`, plus `authorize`,
+// `balance`, `proposal`, `buy` and `proposal_open_contract` for digit
+// contracts. Quotes come from the seeded simulator, so they match the
+// app's own simulator feed, or from a scripted sequence per symbol.
+
+export type MockFaults = {
+  /** Close each connection after it has been sent this many ticks. */
+  dropAfterTicks?: number;
+  /** Stop sending ticks to a connection after this many (it stays open, so the feed goes stale). */
+  stallAfterTicks?: number;
+  /** Hold every outgoing message back this long. */
+  delayMs?: number;
+  /** Send every n-th outgoing message as truncated, unparseable JSON. */
+  malformedEvery?: number;
+};
+
+export type MockDerivOptions = {
+  port?: number;
+  /** Quotes to play per symbol, looping; other known symbols use the simulator. */
+  script?: Record<string, number[]>;
+  /** Tick spacing for scripted symbols. */
+  intervalMs?: number;
+  seed?: number;
+  faults?: MockFaults;
+  /** Accepted API tokens; any non-empty token if omitted. */
+  tokens?: string[];
+  /** Starting balance of the mock account. */
+  balance?: number;
+  /** Taken off the fair payout of every proposal. */
+  commission?: number;
+};
+
+export type MockDerivServer = {
+  port: number;
+  close(): Promise<void>;
+};
+
+type Message = Record<string, unknown> & { req_id?: number };
+
+type MockContract = {
+  id: number;
+  symbol: string;
+  contractType: string;
+  barrier: number | null;
+  duration: number;
+  buyPrice: number;
+  payout: number;
+  ticks: Tick[];
+  status: "open" | "won" | "lost";
+};
+
+type Proposal = Omit<MockContract, "id" | "ticks" | "status">;
+
+/** Winning final digits of each digit contract type, for barrier `b`. */
+const WINNING_DIGITS: Record<string, ((b: number) => number[]) | undefined> = {
+  DIGITMATCH: (b) => [b],
+  DIGITDIFF: (b) => DIGITS.filter((d) => d !== b),
+  DIGITEVEN: () => [0, 2, 4, 6, 8],
+  DIGITODD: () => [1, 3, 5, 7, 9],
+  DIGITOVER: (b) => DIGITS.filter((d) => d > b),
+  DIGITUNDER: (b) => DIGITS.filter((d) => d < b),
+};
+const NEEDS_BARRIER = ["DIGITMATCH", "DIGITDIFF", "DIGITOVER", "DIGITUNDER"];
+const DIGITS = Array.from({ length: 10 }, (_, d) => d);
+
+const round2 = (x: number) => Math.round(x * 100) / 100;
+
+const longcode = (p: Proposal) =>
+  `Win payout if the last digit of ${p.symbol} after ${p.duration} ticks is ` +
+  `${p.contractType}${p.barrier === null ? "" : ` ${p.barrier}`}.`;
+
+/** Thrown while handling a request; answered as a Deriv `error` reply. */
+class MockError extends Error {
+  constructor(
+    readonly code: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export const startMockDeriv = ({
+  port = 8765,
+  script = {},
+  intervalMs = 1000,
+  seed = DEFAULT_SIM_SEED,
+  faults = {},
+  tokens,
+  balance: startBalance = 10_000,
+  commission = 0.05,
+}: MockDerivOptions = {}): Promise<MockDerivServer> => {
+  // ---- tick sources, shared by every connection ---- //
+
+  const sim = createSimulatorFeed({ seed });
+  const scripted = new Map<
+    string,
+    {
+      listeners: Set<(t: Tick) => void>;
+      timer?: ReturnType<typeof setInterval>;
+      /** Last epoch sent, kept across restarts of the timer so epochs never repeat. */
+      epoch: number;
+    }
+  >();
+
+  const hasSymbol = (symbol: string) => symbol in script || !!findMarket(symbol);
+
+  /** Call `listener` on every tick of `symbol`; returns an unsubscribe. */
+  const onTick = (symbol: string, listener: (t: Tick) => void): (() => void) => {
+    const quotes = script[symbol];
+    if (!quotes) {
+      sim.subscribe(symbol, listener);
+      return () => sim.unsubscribe(symbol, listener);
+    }
+    const src = scripted.get(symbol) ?? { listeners: new Set(), epoch: 0 };
+    scripted.set(symbol, src);
+    src.listeners.add(listener);
+    if (!src.timer) {
+      let i = 0;
+      src.timer = setInterval(() => {
+        // Epochs stay strictly increasing, as on Deriv, even when ticking faster than 1/s
+        const epoch = (src.epoch = Math.max(src.epoch + 1, Math.floor(Date.now() / 1000)));
+        const tick = {
+          id: tickId(symbol, epoch),
+          symbol,
+          epoch,
+          quote: quotes[i++ % quotes.length],
+          pipSize: defaultPipSize(symbol),
+        };
+        src.listeners.forEach((l) => l(tick));
+      }, intervalMs);
+    }
+    return () => {
+      src.listeners.delete(listener);
+      if (src.listeners.size > 0) return;
+      clearInterval(src.timer);
+      src.timer = undefined;
+    };
+  };
+
+  // ---- the one mock account ---- //
+
+  let balance = startBalance;
+  let nextContractId = 1;
+  const contracts = new Map<number, MockContract>();
+  const contractWatchers = new Map<number, Set<(c: MockContract) => void>>();
+  const balanceWatchers = new Set<() => void>();
+
+  const setBalance = (b: number) => {
+    balance = round2(b);
+    balanceWatchers.forEach((l) => l());
+  };
+
+  const openContract = (p: Proposal): MockContract => {
+    const c: MockContract = { ...p, id: nextContractId++, ticks: [], status: "open" };
+    contracts.set(c.id, c);
+    setBalance(balance - c.buyPrice);
+    // The first tick after purchase is the entry spot, the next `duration` settle it
+    const off = onTick(c.symbol, (tick) => {
+      c.ticks.push(tick);
+      if (c.ticks.length > c.duration) {
+        off();
+        const win = WINNING_DIGITS[c.contractType]!(c.barrier ?? 0);
+        c.status = win.includes(lastDigit(tick.quote, tick.pipSize)) ? "won" : "lost";
+        if (c.status === "won") setBalance(balance + c.payout);
+      }
+      contractWatchers.get(c.id)?.forEach((l) => l(c));
+    });
+    return c;
+  };
+
+  const describeContract = (c: MockContract) => ({
+    contract_id: c.id,
+    underlying: c.symbol,
+    contract_type: c.contractType,
+    barrier: c.barrier === null ? undefined : String(c.barrier),
+    status: c.status,
+    is_sold: c.status === "open" ? 0 : 1,
+    buy_price: c.buyPrice,
+    payout: c.payout,
+    profit:
+      c.status === "won" ? round2(c.payout - c.buyPrice) : c.status === "lost" ? -c.buyPrice : 0,
+    tick_count: c.duration,
+    longcode: longcode(c),
+    current_spot_display_value: c.ticks.length
+      ? formatQuote(c.ticks[c.ticks.length - 1].quote, c.ticks[c.ticks.length - 1].pipSize)
+      : undefined,
+  });
+
+  const priceProposal = (m: Message): Proposal => {
+    const { symbol, contract_type: type, amount, duration, duration_unit: unit } = m;
+    const rule = typeof type === "string" ? WINNING_DIGITS[type] : undefined;
+    if (!rule) throw new MockError("ContractCreationFailure", `Trading is not offered for ${type}.`);
+    if (typeof symbol !== "string" || !hasSymbol(symbol))
+      throw new MockError("InvalidSymbol", `Symbol ${symbol} is invalid.`);
+    if (typeof amount !== "number" || !(amount > 0))
+      throw new MockError("InputValidationFailed", "Input validation failed: amount");
+    const ticks = Number.isInteger(duration) ? (duration as number) : 0;
+    if (unit !== "t" || ticks < 1 || ticks > 10)
+      throw new MockError("OfferingsValidationError", "Number of ticks must be between 1 and 10.");
+    const barrier = NEEDS_BARRIER.includes(type as string) ? Number(m.barrier) : null;
+    const winning = rule(barrier ?? 0);
+    if (!Number.isInteger(barrier ?? 0) || winning.length === 0 || winning.length === 10)
+      throw new MockError("ContractCreationFailure", "Barrier is out of range.");
+    const p = winning.length / 10;
+    return {
+      symbol,
+      contractType: type as string,
+      barrier,
+      duration: ticks,
+      buyPrice: amount,
+      payout: round2((amount * (1 - commission)) / p),
+    };
+  };
+
+  // ---- connections ---- //
+
+  const wss = new WebSocketServer({ port });
+
+  wss.on("connection", (ws: WebSocket) => {
+    const streams = new Map<string, () => void>(); // subscription id → stop
+    const tickStreams = new Map<string, string>(); // symbol → subscription id
+    const proposals = new Map<string, Proposal>();
+    let authorized = false;
+    let sent = 0;
+    let ticksSent = 0;
+
+    const send = (payload: object) => {
+      sent += 1;
+      const text = JSON.stringify(payload);
+      const out =
+        faults.malformedEvery && sent % faults.malformedEvery === 0
+          ? text.slice(0, Math.floor(text.length / 2))
+          : text;
+      const deliver = () => {
+        if (ws.readyState === ws.OPEN) ws.send(out);
+      };
+      if (faults.delayMs) setTimeout(deliver, faults.delayMs);
+      else deliver();
+    };
+
+    const reply = (m: Message, msgType: string, body: object) =>
+      send({ echo_req: m, msg_type: msgType, req_id: m.req_id, ...body });
+
+    const streamId = () => randomUUID().replace(/-/g, "");
+
+    const forget = (id: string) => {
+      streams.get(id)?.();
+      return streams.delete(id);
+    };
+
+    const handle = (m: Message) => {
+      if (m.ping) return reply(m, "ping", { ping: "pong" });
+
+      if (m.ticks !== undefined) {
+        const symbol = m.ticks;
+        if (typeof symbol !== "string" || !hasSymbol(symbol))
+          throw new MockError("InvalidSymbol", `Symbol ${String(symbol)} is invalid.`);
+        if (tickStreams.has(symbol))
+          throw new MockError("AlreadySubscribed", `You are already subscribed to ${symbol}.`);
+        const id = streamId();
+        tickStreams.set(symbol, id);
+        const off = onTick(symbol, (tick) => {
+          if (faults.stallAfterTicks !== undefined && ticksSent >= faults.stallAfterTicks) return;
+          ticksSent += 1;
+          reply(m, "tick", {
+            tick: {
+              symbol,
+              epoch: tick.epoch,
+              quote: tick.quote,
+              pip_size: tick.pipSize,
+              id,
+            },
+            subscription: { id },
+          });
+          if (faults.dropAfterTicks !== undefined && ticksSent >= faults.dropAfterTicks)
+            ws.terminate();
+        });
+        streams.set(id, () => {
+          off();
+          tickStreams.delete(symbol);
+        });
+        return;
+      }
+
+      if (m.forget !== undefined)
+        return reply(m, "forget", { forget: forget(String(m.forget)) ? 1 : 0 });
+      if (m.forget_all !== undefined) {
+        const ids = [...streams.keys()];
+        ids.forEach(forget);
+        return reply(m, "forget_all", { forget_all: ids });
+      }
+
+      if (m.authorize !== undefined) {
+        const token = m.authorize;
+        if (typeof token !== "string" || !token || (tokens && !tokens.includes(token)))
+          throw new MockError("InvalidToken", "The token is invalid.");
+        authorized = true;
+        return reply(m, "authorize", {
+          authorize: {
+            loginid: "VRTC1000001",
+            currency: "USD",
+            balance,
+            fullname: "Mock Trader",
+            is_virtual: 1,
+          },
+        });
+      }
+
+      if (m.proposal) {
+        const proposal = priceProposal(m);
+        const id = randomUUID();
+        proposals.set(id, proposal);
+        const body = {
+          proposal: {
+            id,
+            ask_price: proposal.buyPrice,
+            payout: proposal.payout,
+            longcode: longcode(proposal),
+          },
+        };
+        if (!m.subscribe) return reply(m, "proposal", body);
+        // Digit prices never move, so the stream is just the one quote
+        const sid = streamId();
+        streams.set(sid, () => proposals.delete(id));
+        return reply(m, "proposal", { ...body, subscription: { id: sid } });
+      }
+
+      if (!authorized && (m.buy || m.balance || m.proposal_open_contract))
+        throw new MockError("AuthorizationRequired", "Please log in.");
+
+      if (m.balance) {
+        const body = () => ({ balance: { balance, currency: "USD", loginid: "VRTC1000001" } });
+        if (!m.subscribe) return reply(m, "balance", body());
+        const sid = streamId();
+        const push = () => reply(m, "balance", { ...body(), subscription: { id: sid } });
+        balanceWatchers.add(push);
+        streams.set(sid, () => balanceWatchers.delete(push));
+        return push();
+      }
+
+      if (m.buy) {
+        const proposal = proposals.get(String(m.buy));
+        if (!proposal) throw new MockError("InvalidContractProposal", "Unknown contract proposal.");
+        if (typeof m.price !== "number" || m.price < proposal.buyPrice)
+          throw new MockError(
+            "ContractBuyValidationError",
+            "The underlying market has moved too much since you priced the contract.",
+          );
+        if (proposal.buyPrice > balance)
+          throw new MockError("InsufficientBalance", "Your account balance is insufficient.");
+        proposals.delete(String(m.buy));
+        const c = openContract(proposal);
+        return reply(m, "buy", {
+          buy: {
+            contract_id: c.id,
+            buy_price: c.buyPrice,
+            payout: c.payout,
+            balance_after: balance,
+            longcode: longcode(c),
+            transaction_id: c.id,
+          },
+        });
+      }
+
+      if (m.proposal_open_contract) {
+        const c = contracts.get(Number(m.contract_id));
+        if (!c) throw new MockError("InvalidContractId", "Contract not found.");
+        if (!m.subscribe || c.status !== "open")
+          return reply(m, "proposal_open_contract", { proposal_open_contract: describeContract(c) });
+        const watchers = contractWatchers.get(c.id) ?? new Set();
+        contractWatchers.set(c.id, watchers);
+        const sid = streamId();
+        const push = (next: MockContract) => {
+          reply(m, "proposal_open_contract", {
+            proposal_open_contract: describeContract(next),
+            subscription: { id: sid },
+          });
+          if (next.status !== "open") forget(sid);
+        };
+        watchers.add(push);
+        streams.set(sid, () => watchers.delete(push));
+        return push(c);
+      }
+
+      throw new MockError("UnrecognisedRequest", "Unrecognised request.");
+    };
+
+    ws.on("message", (raw) => {
+      let m: Message;
+      try {
+        m = JSON.parse(String(raw));
+      } catch {
+        const error = { code: "InputValidationFailed", message: "Malformed JSON" };
+        return send({ msg_type: "error", error });
+      }
+      try {
+        handle(m);
+      } catch (e) {
+        if (!(e instanceof MockError)) throw e;
+        const msgType = Object.keys(m).find((k) => k !== "req_id" && k !== "subscribe") ?? "error";
+        reply(m, msgType, { error: { code: e.code, message: e.message } });
+      }
+    });
+
+    ws.on("close", () => {
+      streams.forEach((stop) => stop());
+      streams.clear();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    wss.once("error", reject);
+    wss.once("listening", () =>
+      resolve({
+        port: (wss.address() as { port: number }).port,
+        close: () =>
+          new Promise((done) => {
+            wss.clients.forEach((c) => c.terminate());
+            sim.close();
+            scripted.forEach((s) => clearInterval(s.timer));
+            wss.close(() => done());
+          }),
+      }),
+    );
+  });
+};
@@ -0,0 +1,85 @@
+import { isSettled, type Contract } from "@/lib/contracts";
+import {
+  GENESIS_HASH,
+  SIGNING_ALGORITHM,
+  receiptBody,
+  signBody,
+  type Receipt,
+} from "@/lib/receipts";
+import { HttpError } from "./http";
+import { singleton } from "./singleton";
+import { loadJson, saveJson } from "./store";
+
+// ==========================================================
+// Receipt issuer: signs settled contracts into the chain
+// ==========================================================
+// The signing key is made on first use and kept with the rest of the
+// server state, so receipts stay verifiable across restarts. The app has a
+// single wallet, so there is a single chain.
+
+/** No receipt for a contract, e.g. one still running. */
+export class ReceiptError extends HttpError {
+  name = "ReceiptError";
+}
+
+type StoredKey = { privateKey: JsonWebKey; publicKey: JsonWebKey };
+
+const loadKey = async () => {
+  let stored = loadJson<StoredKey | null>("receipt-key", null);
+  if (!stored) {
+    const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ["sign", "verify"]);
+    stored = {
+      privateKey: await crypto.subtle.exportKey("jwk", pair.privateKey),
+      publicKey: await crypto.subtle.exportKey("jwk", pair.publicKey),
+    };
+    saveJson("receipt-key", stored);
+  }
+  const privateKey = await crypto.subtle.importKey(
+    "jwk",
+    stored.privateKey,
+    SIGNING_ALGORITHM,
+    false,
+    ["sign"],
+  );
+  return { privateKey, publicKey: stored.publicKey };
+};
+
+const issuer = singleton("receipts", () => ({
+  receipts: loadJson<Receipt[]>("receipts", []),
+  key: null as ReturnType<typeof loadKey> | null,
+  /** Receipts are signed one at a time, so each links to the one before. */
+  queue: Promise.resolve(),
+}));
+
+const signingKey = () => (issuer.key ??= loadKey());
+
+/** The public half of the signing key, as a JWK. */
+export const publicKey = async (): Promise<JsonWebKey> => (await signingKey()).publicKey;
+
+/** Sign a settled contract's receipt onto the end of the chain. */
+export const issueReceipt = (c: Contract): Promise<void> => {
+  if (!isSettled(c)) return Promise.resolve();
+  issuer.queue = issuer.queue
+    .then(async () => {
+      if (issuer.receipts.some((r) => r.body.contractId === c.id)) return;
+      const prev = issuer.receipts[issuer.receipts.length - 1];
+      const body = receiptBody(c, issuer.receipts.length, prev?.hash ?? GENESIS_HASH);
+      issuer.receipts.push(await signBody(body, (await signingKey()).privateKey));
+      saveJson("receipts", issuer.receipts);
+    })
+    .catch((e) => console.error(`Could not sign a receipt for ${c.id}`, e));
+  return issuer.queue;
+};
+
+export const getReceipt = async (contractId: string): Promise<Receipt> => {
+  await issuer.queue; // one may be being signed
+  const r = issuer.receipts.find((x) => x.body.contractId === contractId);
+  if (!r) throw new ReceiptError(`No receipt for contract ${contractId}; is it settled?`, 404);
+  return r;
+};
+
+/** The whole chain, oldest first. */
+export const listReceipts = async (): Promise<Receipt[]> => {
+  await issuer.queue;
+  return issuer.receipts;
+};
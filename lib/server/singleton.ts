@@ -0,0 +1,12 @@
+// Module state in route handlers is re-evaluated on every dev-server reload;
+// keeping it on globalThis lets feeds and in-flight contracts survive that.
+const registry = globalThis as typeof globalThis & {
+  __blackjackSingletons?: Map<string, unknown>;
+};
+
+/** Process-wide instance for `key`, created on first use. */
+export const singleton = <T>(key: string, create: () => T): T => {
+  const map = (registry.__blackjackSingletons ??= new Map());
+  if (!map.has(key)) map.set(key, create());
+  return map.get(key) as T;
+};
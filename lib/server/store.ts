@@ -0,0 +1,30 @@
+import fs from "fs";
+import path from "path";
+
+// ==========================================================
+// Tiny JSON-file persistence for server state
+// ==========================================================
+// One file per collection under DATA_DIR (default `.data/`). Writes go to a
+// temp file first and are renamed into place, so a crash mid-write never
+// leaves a truncated document behind.
+
+const DATA_DIR = process.env.DATA_DIR ?? path.join(process.cwd(), ".data");
+
+const fileFor = (name: string) => path.join(DATA_DIR, `${name}.json`);
+
+/** Read collection `name`, or `fallback` if it has never been saved. */
+export const loadJson = <T>(name: string, fallback: T): T => {
+  try {
+    return JSON.parse(fs.readFileSync(fileFor(name), "utf8")) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw e;
+  }
+};
+
+export const saveJson = (name: string, value: unknown): void => {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const tmp = `${fileFor(name)}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value));
+  fs.renameSync(tmp, fileFor(name));
+};
@@ -0,0 +1,70 @@
+import {
+  MAX_TOPUP,
+  STARTING_BALANCE,
+  toCents,
+  type LedgerEntryType,
+  type Wallet,
+} from "@/lib/wallet";
+import { HttpError } from "./http";
+import { singleton } from "./singleton";
+import { loadJson, saveJson } from "./store";
+
+// ==========================================================
+// Demo wallet: every balance change is a ledger entry
+// ==========================================================
+
+export class WalletError extends HttpError {
+  name = "WalletError";
+}
+
+const wallet = singleton("wallet", () =>
+  loadJson<Wallet>("wallet", { balance: STARTING_BALANCE, ledger: [] }),
+);
+
+const append = (
+  type: LedgerEntryType,
+  amount: number,
+  contractId: string | null = null,
+): Wallet => {
+  wallet.balance = toCents(wallet.balance + amount);
+  wallet.ledger.push({
+    seq: wallet.ledger.length + 1,
+    type,
+    amount: toCents(amount),
+    balance: wallet.balance,
+    contractId,
+    at: Date.now(),
+  });
+  saveJson("wallet", wallet);
+  return wallet;
+};
+
+export const getWallet = (): Wallet => wallet;
+
+/** Take a contract's stake, refusing to go below zero. */
+export const debitStake = (stake: number, contractId: string): Wallet => {
+  if (toCents(stake) > wallet.balance)
+    throw new WalletError(
+      `Insufficient funds: stake $${stake.toFixed(2)}, balance $${wallet.balance.toFixed(2)}`,
+    );
+  return append("stake", -stake, contractId);
+};
+
+export const creditPayout = (payout: number, contractId: string): Wallet =>
+  append("payout", payout, contractId);
+
+export const refundStake = (stake: number, contractId: string): Wallet =>
+  append("refund", stake, contractId);
+
+export const creditSale = (price: number, contractId: string): Wallet =>
+  append("sale", price, contractId);
+
+export const topUp = (amount: unknown): Wallet => {
+  if (typeof amount !== "number" || !(amount > 0) || amount > MAX_TOPUP)
+    throw new WalletError(`Top-up must be between $0.01 and $${MAX_TOPUP}`);
+  return append("topup", amount);
+};
+
+/** Bring the balance back to the starting amount; the ledger keeps the history. */
+export const resetWallet = (): Wallet =>
+  append("reset", STARTING_BALANCE - wallet.balance);
@@ -0,0 +1,26 @@
+// ======================
+// Demo wallet & ledger
+// ======================
+
+export type LedgerEntryType = "stake" | "payout" | "refund" | "sale" | "topup" | "reset";
+
+/** One append-only ledger line; `amount` is signed, `balance` is after it. */
+export type LedgerEntry = {
+  seq: number;
+  type: LedgerEntryType;
+  amount: number;
+  balance: number;
+  contractId: string | null;
+  at: number;
+};
+
+export type Wallet = {
+  balance: number;
+  ledger: LedgerEntry[];
+};
+
+export const STARTING_BALANCE = 1000;
+export const MAX_TOPUP = 10_000;
+
+/** Round to whole cents. */
+export const toCents = (x: number): number => Math.round(x * 100) / 100;
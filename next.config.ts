@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The contract engine talks to Deriv through `ws` on the server
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
@@ -0,0 +1,40 @@
+/**
+ * Command-line flags shared by the scripts: `--name value`, or a bare
+ * `--name` read as "true". Bad values end the script with a usage error
+ * rather than a stack trace.
+ */
+export const parseArgs = (argv = process.argv.slice(2)): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const next = argv[i + 1];
+    args.set(argv[i].slice(2), next && !next.startsWith("--") ? argv[++i] : "true");
+  }
+  return args;
+};
+
+export const usageError = (message: string): never => {
+  console.error(`usage: ${message}`);
+  process.exit(2);
+};
+
+/** `read()` the value of `--name`, turning what it throws into a usage error. */
+export const readFlag = <T>(name: string, read: () => T): T => {
+  try {
+    return read();
+  } catch (e) {
+    return usageError(`--${name}: ${(e as Error).message}`);
+  }
+};
+
+export const toNumber = (value: string): number => {
+  const n = Number(value);
+  if (value.trim() === "" || !Number.isFinite(n)) throw new RangeError(`Not a number: ${value}`);
+  return n;
+};
+
+export const toInt = (value: string): number => {
+  const n = toNumber(value);
+  if (!Number.isInteger(n)) throw new RangeError(`Not an integer: ${value}`);
+  return n;
+};
@@ -0,0 +1,104 @@
+/**
+ * Sweep contract configurations over a simulated or recorded tick stream.
+ *
+ *   npm run backtest -- --symbol CRASH300N --ticks 200000 --durations 1-10 \
+ *     --margins 2%,5% --out sweep.csv
+ *   npm run backtest -- --ticks-file session.json --targets 20-30
+ *
+ * `--ticks-file` takes a JSON array of ticks ({ symbol, epoch, quote, pipSize }), as
+ * recorded from a feed. Without it, `--ticks` ticks are generated by the
+ * seeded simulator for `--symbol`.
+ */
+import fs from "fs";
+import {
+  gridSize,
+  parseIntList,
+  parseMargins,
+  resultsToCsv,
+  runBacktest,
+  ticksToDigits,
+  type BacktestGrid,
+} from "@/lib/backtest";
+import { simulateTicks } from "@/lib/feeds/simulator";
+import type { Direction } from "@/lib/pricing";
+import { parseTicks } from "@/lib/recorder";
+import { parseArgs, readFlag, toInt } from "./args";
+
+const args = parseArgs();
+const arg = (name: string, fallback: string) => args.get(name) ?? fallback;
+const flag = <T>(name: string, fallback: string, parse: (value: string) => T) =>
+  readFlag(name, () => parse(arg(name, fallback)));
+
+const parseDirections = (value: string): Direction[] => {
+  const dirs = value.split(",").map((d) => d.trim());
+  const bad = dirs.find((d) => d !== "Higher" && d !== "Lower");
+  if (bad !== undefined) throw new RangeError(`Bad direction: "${bad}" (Higher or Lower)`);
+  return dirs as Direction[];
+};
+
+const symbol = arg("symbol", "1HZ100V");
+const ticksFile = args.get("ticks-file");
+const ticks = ticksFile
+  ? readFlag("ticks-file", () => parseTicks(JSON.parse(fs.readFileSync(ticksFile, "utf8"))))
+  : simulateTicks(symbol, flag("ticks", "100000", toInt), {
+      seed: flag("seed", "1089", toInt),
+      startMs: flag("start", "2025-01-01T00:00:00Z", (v) => {
+        const ms = Date.parse(v);
+        if (Number.isNaN(ms)) throw new RangeError(`Bad date: ${v}`);
+        return ms;
+      }),
+    });
+
+const equal = flag("equal", "both", (v) => {
+  if (v !== "both" && v !== "true" && v !== "false") throw new RangeError("both, true or false");
+  return v;
+});
+const grid: BacktestGrid = {
+  durations: flag("durations", "1-10", parseIntList),
+  targets: arg("targets", "all") === "all" ? null : flag("targets", "", parseIntList),
+  directions: flag("directions", "Higher,Lower", parseDirections),
+  allowEqual: equal === "both" ? [false, true] : [equal === "true"],
+  margins: flag("margins", "0.05", parseMargins),
+};
+const top = flag("top", "10", toInt);
+
+const digits = ticksToDigits(ticks);
+console.log(
+  `${digits.length} ticks (${ticksFile ?? `simulated ${symbol}`}), ${gridSize(grid)} configurations`,
+);
+const t0 = Date.now();
+const results = runBacktest(digits, grid);
+console.log(`done in ${Date.now() - t0} ms`);
+
+const bets = results.reduce((a, r) => a + r.bets, 0);
+const pnl = results.reduce((a, r) => a + r.housePnl, 0);
+const expected = results.reduce((a, r) => a + r.expectedHousePnl, 0);
+console.log(
+  `house P&L ${pnl.toFixed(2)} on ${bets} unit bets (expected ${expected.toFixed(2)}, ` +
+    `edge ${((100 * pnl) / bets).toFixed(3)}% vs ${((100 * expected) / bets).toFixed(3)}%)`,
+);
+
+// Configurations where realised hit rates stray furthest from the model
+console.table(
+  [...results]
+    .sort((a, b) => Math.abs(b.z) - Math.abs(a.z))
+    .slice(0, top)
+    .map((r) => ({
+      k: r.duration,
+      target: r.target,
+      dir: r.direction + (r.allowEqual ? "=" : ""),
+      margin: r.margin,
+      bets: r.bets,
+      p: r.p.toFixed(4),
+      hit: r.hitRate.toFixed(4),
+      z: r.z.toFixed(2),
+      pnl: r.housePnl.toFixed(2),
+      drawdown: r.maxDrawdown.toFixed(2),
+    })),
+);
+
+const out = args.get("out");
+if (out) {
+  fs.writeFileSync(out, resultsToCsv(results));
+  console.log(`wrote ${results.length} rows to ${out}`);
+}
@@ -0,0 +1,48 @@
+/**
+ * Local stand-in for the Deriv WebSocket API, for testing the app offline
+ * and under faults. Point the app at it with
+ *
+ *   NEXT_PUBLIC_DERIV_WS_URL=ws://localhost:8765 npm run dev
+ *   npm run mock-deriv -- --port 8765 --script ticks.json --drop-after 20
+ *
+ * `--script` takes a JSON object of quotes per symbol ({ "R_100": [1234.56,
+ * ...] }), played in a loop every `--interval` ms; other symbols tick from
+ * the seeded simulator. Faults: `--drop-after N` closes each connection
+ * after N ticks, `--stall-after N` goes silent after N ticks, `--delay MS`
+ * holds back every message and `--malformed-every N` breaks every n-th.
+ */
+import fs from "fs";
+import { startMockDeriv } from "@/lib/server/mock-deriv";
+import { parseArgs, readFlag, toNumber } from "./args";
+
+const args = parseArgs();
+const num = (name: string) => {
+  const value = args.get(name);
+  return value === undefined ? undefined : readFlag(name, () => toNumber(value));
+};
+
+const scriptFile = args.get("script");
+
+startMockDeriv({
+  port: num("port"),
+  script: scriptFile
+    ? readFlag("script", () => JSON.parse(fs.readFileSync(scriptFile, "utf8")))
+    : undefined,
+  intervalMs: num("interval"),
+  seed: num("seed"),
+  tokens: args.get("tokens")?.split(","),
+  balance: num("balance"),
+  commission: num("commission"),
+  faults: {
+    dropAfterTicks: num("drop-after"),
+    stallAfterTicks: num("stall-after"),
+    delayMs: num("delay"),
+    malformedEvery: num("malformed-every"),
+  },
+}).then(
+  (server) => console.log(`mock Deriv API on ws://localhost:${server.port}`),
+  (e: Error) => {
+    console.error(e.message);
+    process.exit(1);
+  },
+);